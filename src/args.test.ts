@@ -0,0 +1,59 @@
+import { describe, expect, test } from "bun:test";
+import { createArgsTransform, redactFields } from "./args.js";
+import { hashKey } from "./keys.js";
+
+describe("createArgsTransform", () => {
+  const params = {
+    owner: "o",
+    repo: "r",
+    request_id: "123",
+    headers: { authorization: "token abc", accept: "json" },
+  };
+
+  test("should pick and omit nested fields without mutating the arguments", () => {
+    const pick = createArgsTransform({ pick: ["owner", "headers.accept", "missing.field"] });
+    const omit = createArgsTransform({ omit: ["request_id", "headers.authorization"] });
+
+    expect(pick([params, 1])).toEqual([{ owner: "o", headers: { accept: "json" } }, 1]);
+    expect(omit([params])).toEqual([{ owner: "o", repo: "r", headers: { accept: "json" } }]);
+    expect(params.headers.authorization).toBe("token abc");
+  });
+
+  test("should redact fields with a stable hash", () => {
+    const redact = createArgsTransform({ redact: ["headers.authorization"] });
+    const [redacted] = redact([params]);
+
+    expect(redacted.headers.authorization).toBe(`#${hashKey('"token abc"')}`);
+    expect(redact([params])).toEqual([redacted]);
+  });
+
+  test("should apply a transform function as is", () => {
+    const signal = new AbortController().signal;
+    expect(createArgsTransform((args) => args.slice(0, 1))([params, signal])).toEqual([params]);
+  });
+});
+
+describe("redactFields", () => {
+  test("should hash matching fields at any depth", () => {
+    const [redacted] = redactFields(
+      [{ auth: { Token: "t" }, list: [{ apiSecret: "s" }], name: "n" }],
+      ["token", /secret/i],
+    );
+
+    expect(redacted).toEqual({
+      auth: { Token: `#${hashKey('"t"')}` },
+      list: [{ apiSecret: `#${hashKey('"s"')}` }],
+      name: "n",
+    });
+  });
+
+  test("should leave cycles and non-plain objects alone", () => {
+    const cyclic: Record<string, unknown> = { token: "t" };
+    cyclic.self = cyclic;
+    const date = new Date(0);
+    const [redacted] = redactFields([{ cyclic, date }], ["token"]);
+
+    expect(redacted.cyclic.token).toStartWith("#");
+    expect(redacted.date).toBe(date);
+  });
+});
@@ -0,0 +1,124 @@
+import { hashKey, stableStringify } from "./keys.js";
+
+/**
+ * How a method's arguments are reduced before they make up its cache key:
+ * a function mapping the arguments, or dotted field paths applied to every object argument.
+ * - `pick`: keep only these fields
+ * - `omit`: drop these fields
+ * - `redact`: replace these fields' values with a hash
+ *
+ * @example
+ * ```ts
+ * { omit: ["request_id", "onProgress"], redact: ["headers.authorization"] }
+ * (args) => args.slice(0, 1) // drop a trailing AbortSignal
+ * ```
+ */
+export type ArgsTransform =
+  | ((args: any[]) => any[])
+  | { pick?: string[]; omit?: string[]; redact?: string[] };
+
+/** Field names whose values are hashed wherever they appear in arguments */
+export type RedactPatterns = (string | RegExp)[];
+
+type Fields = Record<string, unknown>;
+
+/**
+ * createArgsTransform
+ * Build the function applying an `ArgsTransform`. The arguments are copied along the
+ * transformed paths, never mutated.
+ */
+export function createArgsTransform(transform: ArgsTransform): (args: any[]) => any[] {
+  if (typeof transform === "function") return transform;
+  const split = (paths: string[] = []) => paths.map((path) => path.split("."));
+  const pick = transform.pick && split(transform.pick);
+  const omit = split(transform.omit);
+  const redact = split(transform.redact);
+  return (args) =>
+    args.map((arg) => {
+      if (!isPlainObject(arg)) return arg;
+      let value: Fields = pick ? pickPaths(arg, pick) : arg;
+      for (const path of omit) value = updatePath(value, path, () => undefined);
+      for (const path of redact) value = updatePath(value, path, redacted);
+      return value;
+    });
+}
+
+/**
+ * redactFields
+ * Hash the values of fields whose name matches a pattern, at any depth of the arguments.
+ */
+export function redactFields(args: any[], patterns: RedactPatterns): any[] {
+  if (!patterns.length) return args;
+  const matches = (name: string) =>
+    patterns.some((pattern) =>
+      typeof pattern === "string"
+        ? pattern.toLowerCase() === name.toLowerCase()
+        : pattern.test(name),
+    );
+  const walk = (value: unknown, ancestors: Set<unknown>): unknown => {
+    if (ancestors.has(value)) return value;
+    if (Array.isArray(value)) {
+      ancestors.add(value);
+      const walked = value.map((item) => walk(item, ancestors));
+      ancestors.delete(value);
+      return walked;
+    }
+    if (!isPlainObject(value)) return value;
+    ancestors.add(value);
+    const walked = Object.fromEntries(
+      Object.entries(value).map(([name, field]) => [
+        name,
+        matches(name) ? redacted(field) : walk(field, ancestors),
+      ]),
+    );
+    ancestors.delete(value);
+    return walked;
+  };
+  return args.map((arg) => walk(arg, new Set()));
+}
+
+/** Stand-in for a secret: stable, so calls still share entries, but not reversible */
+function redacted(value: unknown) {
+  return value === undefined ? undefined : `#${hashKey(stableStringify(value))}`;
+}
+
+function isPlainObject(value: unknown): value is Fields {
+  if (typeof value !== "object" || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function pickPaths(value: Fields, paths: string[][]): Fields {
+  const picked: Fields = {};
+  for (const path of paths) {
+    let source: unknown = value;
+    for (const name of path) source = isPlainObject(source) ? source[name] : undefined;
+    if (source === undefined) continue;
+    const last = path[path.length - 1] as string;
+    let target = picked;
+    for (const name of path.slice(0, -1)) {
+      target[name] ??= {};
+      target = target[name] as Fields;
+    }
+    target[last] = source;
+  }
+  return picked;
+}
+
+/** Copy `value` with the field at `path` replaced, or removed when `update` returns undefined */
+function updatePath(
+  value: Fields,
+  [name, ...rest]: string[],
+  update: (field: unknown) => unknown,
+): Fields {
+  if (name === undefined || !(name in value)) return value;
+  const field = value[name];
+  const next: unknown = rest.length
+    ? isPlainObject(field)
+      ? updatePath(field, rest, update)
+      : field
+    : update(field);
+  if (next !== undefined) return { ...value, [name]: next };
+  const { [name]: _, ...others } = value;
+  return others;
+}
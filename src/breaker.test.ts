@@ -0,0 +1,32 @@
+import { describe, expect, test } from "bun:test";
+import { createBreaker } from "./breaker.js";
+
+describe("createBreaker", () => {
+  test("should open after consecutive failures only", () => {
+    const breaker = createBreaker({ threshold: 2 });
+    breaker.failure();
+    breaker.success();
+    breaker.failure();
+    expect(breaker.allow()).toBe(true);
+    breaker.failure();
+    expect(breaker.allow()).toBe(false);
+  });
+
+  test("should let a single trial through after the cool-down", async () => {
+    const breaker = createBreaker({ threshold: 1, coolDown: 10 });
+    breaker.failure();
+    expect(breaker.allow()).toBe(false);
+    await new Promise((resolve) => setTimeout(resolve, 15));
+
+    expect(breaker.allow()).toBe(true);
+    expect(breaker.allow()).toBe(false); // the trial is still running
+    breaker.failure();
+    expect(breaker.allow()).toBe(false);
+    await new Promise((resolve) => setTimeout(resolve, 15));
+
+    expect(breaker.allow()).toBe(true);
+    breaker.success();
+    expect(breaker.allow()).toBe(true);
+    expect(breaker.allow()).toBe(true);
+  });
+});
@@ -0,0 +1,37 @@
+export type CircuitBreakerOptions = {
+  /** Consecutive failures that open the circuit. Default: 5 */
+  threshold?: number;
+  /** How long an open circuit skips the store before trying it again, in milliseconds. Default: 30000 */
+  coolDown?: number;
+};
+
+/**
+ * createBreaker
+ * Circuit breaker for the store: opens after `threshold` consecutive failures, then lets a
+ * single trial operation through once `coolDown` has passed. The trial's success closes the
+ * circuit, its failure opens it for another cool-down.
+ */
+export function createBreaker({ threshold = 5, coolDown = 30000 }: CircuitBreakerOptions = {}) {
+  let failures = 0;
+  let openUntil = 0;
+  let trial = false;
+
+  return {
+    /** Whether an operation may run now */
+    allow() {
+      if (failures < threshold) return true;
+      if (trial || Date.now() < openUntil) return false;
+      trial = true;
+      return true;
+    },
+    success() {
+      failures = 0;
+      trial = false;
+    },
+    failure() {
+      failures++;
+      trial = false;
+      if (failures >= threshold) openUntil = Date.now() + coolDown;
+    },
+  };
+}
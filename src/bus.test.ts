@@ -0,0 +1,99 @@
+import { describe, expect, test } from "bun:test";
+import { spawnSync } from "node:child_process";
+import { broadcastChannelBus, type InvalidationMessage, memoryBus, pubSubBus } from "./bus.js";
+
+const message: InvalidationMessage = { origin: "a", type: "key", key: "repos.get(1)" };
+
+describe("memoryBus", () => {
+  test("should deliver copies to every subscriber until unsubscribed", () => {
+    const bus = memoryBus();
+    const received: InvalidationMessage[] = [];
+    const unsubscribe = bus.subscribe((m) => received.push(m));
+
+    bus.publish(message);
+    unsubscribe();
+    bus.publish(message);
+
+    expect(received).toEqual([message]);
+    expect(received[0]).not.toBe(message);
+  });
+});
+
+describe("pubSubBus", () => {
+  test("should send JSON over the channel of a publish/subscribe client", async () => {
+    const listeners = new Map<string, Set<(message: string) => void>>();
+    const client = {
+      publish: (channel: string, raw: string) => {
+        for (const listener of listeners.get(channel) ?? []) listener(raw);
+      },
+      subscribe: (channel: string, listener: (message: string) => void) => {
+        listeners.set(channel, (listeners.get(channel) ?? new Set()).add(listener));
+      },
+      unsubscribe: (channel: string, listener: (message: string) => void) => {
+        listeners.get(channel)?.delete(listener);
+      },
+    };
+    const received: InvalidationMessage[] = [];
+    const bus = pubSubBus(client, "cache");
+    const unsubscribe = bus.subscribe((m) => received.push(m));
+
+    await bus.publish(message);
+    unsubscribe();
+    await bus.publish(message);
+
+    expect(received).toEqual([message]);
+    expect(listeners.get("cache")?.size).toBe(0);
+  });
+});
+
+describe("broadcastChannelBus", () => {
+  test("should reach other channels with the same name", async () => {
+    const name = `test-${Math.random()}`;
+    const sender = new BroadcastChannel(name);
+    const receiver = new BroadcastChannel(name);
+    const received: InvalidationMessage[] = [];
+    const unsubscribe = broadcastChannelBus(receiver).subscribe((m) => received.push(m));
+
+    await broadcastChannelBus(sender).publish(message);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    unsubscribe();
+    sender.close();
+    receiver.close();
+
+    expect(received).toEqual([message]);
+  });
+
+  test("should close a channel it opened once the last listener unsubscribes", async () => {
+    const name = `test-${Math.random()}`;
+    const receiver = new BroadcastChannel(name);
+    const received: InvalidationMessage[] = [];
+    receiver.onmessage = (event) => received.push(event.data);
+    const bus = broadcastChannelBus(name);
+    const first = bus.subscribe(() => {});
+    const second = bus.subscribe(() => {});
+
+    first();
+    first();
+    await bus.publish(message);
+    second();
+    // publishing without listeners opens a channel only for the message
+    await bus.publish(message);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    receiver.close();
+
+    expect(received).toEqual([message, message]);
+  });
+
+  test("should not keep the process alive", () => {
+    const script = `
+      import KeyvCacheProxy, { broadcastChannelBus } from ${JSON.stringify(`${import.meta.dir}/index.ts`)};
+      const cached = KeyvCacheProxy({ store: new Map(), bus: broadcastChannelBus("test-exit") })({
+        get: (id) => id,
+      });
+      console.log(await cached.get(1));
+    `;
+    const { status, stdout } = spawnSync(process.execPath, ["-e", script], { timeout: 4000 });
+    expect(status).toBe(0);
+    expect(String(stdout).trim()).toBe("1");
+  });
+});
@@ -0,0 +1,159 @@
+type Awaitable<T> = T | Promise<T>;
+
+/** An invalidation made through a proxy, replayed by its peers */
+export type InvalidationMessage = { origin: string } & (
+  | {
+      type: "key";
+      key: string;
+      /** Set when a value was written in place (epoch ms): entries written since then are kept */
+      writtenAt?: number;
+    }
+  | { type: "prefix"; path: string }
+  | { type: "tag"; tag: string }
+);
+
+/**
+ * Channel broadcasting invalidations between processes or workers, so each of them
+ * evicts its local copies (the L1 tier, or a per-process store).
+ * Publishers may receive their own messages, the proxy ignores them.
+ */
+export type InvalidationBus = {
+  publish(message: InvalidationMessage): Awaitable<void>;
+  /** Start listening; returns a function that stops listening */
+  subscribe(listener: (message: InvalidationMessage) => void): () => void;
+};
+
+/**
+ * broadcastChannelBus
+ * Bus over a `BroadcastChannel`, which reaches every `worker_threads` worker
+ * (and browser tab) that opens a channel of the same name.
+ * A channel opened from a name is unref'd, so it never keeps the process alive, and closed once
+ * its last listener unsubscribes (see `control.close()`); a channel passed in is left as is.
+ *
+ * @example
+ * ```ts
+ * const gh = KeyvCacheProxy({ store, l1: true, bus: broadcastChannelBus("github") })(octokit.rest);
+ * ```
+ */
+export function broadcastChannelBus(
+  channel: string | BroadcastChannel = "keyv-cache-proxy",
+): InvalidationBus {
+  let bc = typeof channel === "string" ? undefined : channel;
+  let listeners = 0;
+  const open = () => {
+    if (!bc) {
+      bc = new BroadcastChannel(channel as string);
+      // Node and Bun only
+      (bc as { unref?: () => void }).unref?.();
+    }
+    return bc;
+  };
+  const closeIfIdle = () => {
+    if (typeof channel !== "string" || listeners) return;
+    bc?.close();
+    bc = undefined;
+  };
+  return {
+    publish(message) {
+      open().postMessage(message);
+      closeIfIdle();
+    },
+    subscribe(listener) {
+      const target = open();
+      const onMessage = (event: MessageEvent) => listener(event.data);
+      target.addEventListener("message", onMessage as EventListener);
+      listeners++;
+      let subscribed = true;
+      return () => {
+        if (!subscribed) return;
+        subscribed = false;
+        target.removeEventListener("message", onMessage as EventListener);
+        listeners--;
+        closeIfIdle();
+      };
+    },
+  };
+}
+
+/** The part of a `worker_threads` `MessagePort`, `Worker` or `parentPort` the bus needs */
+type MessagePortLike = {
+  postMessage(message: unknown): void;
+  on(event: "message", listener: (message: any) => void): unknown;
+  off(event: "message", listener: (message: any) => void): unknown;
+};
+
+/**
+ * messagePortBus
+ * Bus over a `worker_threads` port, e.g. `parentPort` in a worker and the `Worker` in its parent.
+ * Messages only travel between the two ends; use `broadcastChannelBus` to reach many workers.
+ */
+export function messagePortBus(port: MessagePortLike): InvalidationBus {
+  return {
+    publish: (message) => port.postMessage(message),
+    subscribe(listener) {
+      port.on("message", listener);
+      return () => port.off("message", listener);
+    },
+  };
+}
+
+/**
+ * The generic publish/subscribe shape of clients such as Redis.
+ * `subscribe` may return an unsubscribe function.
+ */
+export type PubSubClient = {
+  publish(channel: string, message: string): unknown;
+  subscribe(channel: string, listener: (message: string) => void): unknown;
+  unsubscribe?(channel: string, listener: (message: string) => void): unknown;
+};
+
+/**
+ * pubSubBus
+ * Bus over any publish/subscribe client, messages are sent as JSON strings.
+ *
+ * @example
+ * ```ts
+ * // node-redis v4+: subscribing needs a dedicated connection
+ * const pub = createClient();
+ * const sub = pub.duplicate();
+ * await Promise.all([pub.connect(), sub.connect()]);
+ * const bus = pubSubBus({
+ *   publish: (channel, message) => pub.publish(channel, message),
+ *   subscribe: (channel, listener) => sub.subscribe(channel, listener),
+ *   unsubscribe: (channel, listener) => sub.unsubscribe(channel, listener),
+ * });
+ * ```
+ */
+export function pubSubBus(client: PubSubClient, channel = "keyv-cache-proxy"): InvalidationBus {
+  return {
+    async publish(message) {
+      await client.publish(channel, JSON.stringify(message));
+    },
+    subscribe(listener) {
+      const onMessage = (raw: string) => listener(JSON.parse(raw));
+      const unsubscribe = client.subscribe(channel, onMessage);
+      return () => {
+        if (typeof unsubscribe === "function") unsubscribe();
+        else client.unsubscribe?.(channel, onMessage);
+      };
+    },
+  };
+}
+
+/**
+ * memoryBus
+ * In-process bus delivering every message to every subscriber, for tests and for
+ * several proxies in one process that keep separate stores.
+ */
+export function memoryBus(): InvalidationBus {
+  const listeners = new Set<(message: InvalidationMessage) => void>();
+  return {
+    publish(message) {
+      for (const listener of listeners) listener(structuredClone(message));
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createCassette } from "./cassette.js";
+
+describe("createCassette", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "cassette-"));
+    file = join(dir, "fixtures", "calls.json");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("should record calls to the fixture file", async () => {
+    const cassette = createCassette({ file, mode: "record" });
+    const recorded = await cassette.play("get(1)", "get", [1], async () => ({ v: { id: 1 } }));
+    expect(recorded.v).toEqual({ id: 1 });
+
+    const fixture = JSON.parse(await readFile(file, "utf8"));
+    expect(fixture).toEqual({
+      version: 1,
+      entries: { "get(1)": { path: "get", args: [1], result: { id: 1 } } },
+    });
+  });
+
+  test("should replay recorded calls without calling through", async () => {
+    await createCassette({ file, mode: "record" }).play("get(1)", "get", [1], async () => ({
+      v: 1,
+    }));
+
+    const replay = createCassette({ file, mode: "replay" });
+    let called = false;
+    const result = await replay.play("get(1)", "get", [1], async () => {
+      called = true;
+      return { v: 2 };
+    });
+    expect(result.v).toBe(1);
+    expect(called).toBe(false);
+  });
+
+  test("should throw a descriptive error on unrecorded calls in replay mode", async () => {
+    const replay = createCassette({ file, mode: "replay" });
+    await expect(replay.play("get(2)", "get", [2], async () => ({ v: 2 }))).rejects.toThrow(
+      /no recording for get\(2\) in .*calls\.json/,
+    );
+  });
+
+  test("should overwrite recordings in update mode", async () => {
+    await createCassette({ file, mode: "record" }).play("get(1)", "get", [1], async () => ({
+      v: 1,
+    }));
+    const update = createCassette({ file, mode: "update" });
+    expect(await update.play("get(1)", "get", [1], async () => ({ v: 2 }))).toMatchObject({ v: 2 });
+
+    const replay = createCassette({ file, mode: "replay" });
+    expect(await replay.play("get(1)", "get", [1], async () => ({ v: 3 }))).toMatchObject({ v: 2 });
+  });
+
+  test("should not touch the fixture in passthrough mode", async () => {
+    const passthrough = createCassette({ file, mode: "passthrough" });
+    expect(await passthrough.play("get(1)", "get", [1], async () => ({ v: 1 }))).toMatchObject({
+      v: 1,
+    });
+    await expect(readFile(file, "utf8")).rejects.toThrow();
+  });
+
+  test("should keep every concurrent recording", async () => {
+    const cassette = createCassette({ file, mode: "record" });
+    await Promise.all(
+      [1, 2, 3].map((id) => cassette.play(`get(${id})`, "get", [id], async () => ({ v: id }))),
+    );
+    const fixture = JSON.parse(await readFile(file, "utf8"));
+    expect(Object.keys(fixture.entries)).toEqual(["get(1)", "get(2)", "get(3)"]);
+  });
+});
@@ -0,0 +1,112 @@
+import type { CodecKind } from "./codec.js";
+import { type IterableKind, iterableKind } from "./iterables.js";
+
+/**
+ * - `record`: serve recorded calls from the fixture, call through and record the others
+ * - `replay`: serve only from the fixture, throw on any unrecorded call
+ * - `update`: call through for every call and overwrite its recording
+ * - `passthrough`: ignore the fixture
+ */
+export type CassetteMode = "record" | "replay" | "update" | "passthrough";
+
+export type CassetteOptions = {
+  /** Path of the JSON fixture file */
+  file: string;
+  mode: CassetteMode;
+};
+
+/**
+ * One recorded call, keyed by its cache key in the fixture. The result is recorded in the form
+ * the proxy stores it: `codec` and `iterable` tell how to rebuild a `Response`, binary payload
+ * or iterator from it.
+ */
+export type CassetteEntry = {
+  path: string;
+  args: any[];
+  result: any;
+  codec?: CodecKind;
+  iterable?: IterableKind;
+};
+
+/** A call's result in its stored form, as recorded and replayed */
+type Recorded = { v: any; codec?: CodecKind; iterable?: IterableKind };
+
+type CassetteFile = { version: 1; entries: Record<string, CassetteEntry> };
+
+/**
+ * createCassette
+ * Record/replay of upstream calls in a JSON fixture, for deterministic network-free tests.
+ * Calls are keyed by the proxy's cache key, so fixtures follow the same key derivation.
+ */
+export function createCassette({ file, mode }: CassetteOptions) {
+  let loaded: Promise<CassetteFile> | undefined;
+  let saving: Promise<void> = Promise.resolve();
+
+  // loaded on first use, so runtimes without `node:fs` can still import the proxy
+  const fs = () => import("node:fs/promises");
+
+  const load = () => {
+    loaded ??= fs()
+      .then(({ readFile }) => readFile(file, "utf8"))
+      .then(
+        (text) => JSON.parse(text) as CassetteFile,
+        (error: NodeJS.ErrnoException) => {
+          if (error.code !== "ENOENT") throw error;
+          return { version: 1, entries: {} } as CassetteFile;
+        },
+      );
+    return loaded;
+  };
+
+  const record = async (key: string, entry: CassetteEntry) => {
+    const fixture = await load();
+    fixture.entries[key] = entry;
+    // writes are chained so concurrent recordings never interleave
+    saving = saving.then(async () => {
+      const sorted = Object.fromEntries(
+        Object.entries(fixture.entries).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)),
+      );
+      const [{ mkdir, writeFile }, { dirname }] = await Promise.all([fs(), import("node:path")]);
+      await mkdir(dirname(file), { recursive: true });
+      await writeFile(file, `${JSON.stringify({ ...fixture, entries: sorted }, null, 2)}\n`);
+    });
+    await saving;
+  };
+
+  return {
+    mode,
+    /** Serve or record one upstream call according to the mode */
+    async play(
+      key: string,
+      path: string,
+      args: any[],
+      call: () => Promise<Recorded>,
+    ): Promise<Recorded> {
+      if (mode === "passthrough") return call();
+      const fixture = await load();
+      const recorded = fixture.entries[key];
+      if (mode !== "update" && recorded) {
+        const { result, codec, iterable } = recorded;
+        return { v: structuredClone(result), codec, iterable };
+      }
+      if (mode === "replay") {
+        throw new Error(
+          `KeyvCacheProxy cassette: no recording for ${key} in ${file}. ` +
+            `Run once with cassette mode "record" to add it.`,
+        );
+      }
+      const { v, codec, iterable } = await call();
+      // an iterable too long to drain is still an iterator: handed over unrecorded
+      if (!iterableKind(v)) {
+        await record(key, {
+          path,
+          args,
+          result: v,
+          ...(codec && { codec }),
+          ...(iterable && { iterable }),
+        });
+      }
+      return { v, codec, iterable };
+    },
+  };
+}
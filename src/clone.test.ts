@@ -0,0 +1,33 @@
+import { describe, expect, test } from "bun:test";
+import Keyv from "keyv";
+import { createCloner, sharesReferences } from "./clone.js";
+
+describe("createCloner", () => {
+  test("should copy plain data and pass other values through", () => {
+    const copy = createCloner("structured");
+    const value = { items: [{ id: 1 }], at: new Date(0) };
+    const copied = copy(value);
+    expect(copied).toEqual(value);
+    expect(copied.items).not.toBe(value.items);
+
+    class Client {}
+    const client = new Client();
+    expect(copy(client)).toBe(client);
+    const withFunction = { run: () => 1 };
+    expect(copy(withFunction)).toBe(withFunction);
+  });
+
+  test("should deep-freeze in place", () => {
+    const value = { items: [{ id: 1 }] };
+    expect(createCloner("freeze")(value)).toBe(value);
+    expect(Object.isFrozen(value.items[0])).toBe(true);
+  });
+});
+
+describe("sharesReferences", () => {
+  test("should detect stores returning the objects they were given", () => {
+    expect(sharesReferences(new Map())).toBe(true);
+    expect(sharesReferences(new Keyv({ serialize: undefined, deserialize: undefined }))).toBe(true);
+    expect(sharesReferences(new Keyv())).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * How cached values are kept apart from the objects callers hold:
+ * - `structured`: a `structuredClone` copy
+ * - `freeze`: the value itself, deep-frozen so a caller's mutation throws (strict mode) or is ignored
+ * - a function returning the copy to use
+ */
+export type CloneStrategy = "structured" | "freeze" | ((value: any) => any);
+
+/** One strategy for both directions, or one per direction; `false` turns copying off */
+export type CloneOptions =
+  | false
+  | CloneStrategy
+  | { write?: CloneStrategy | false; read?: CloneStrategy | false };
+
+/**
+ * createCloner
+ * Build the function applying a strategy to a value. `structured` only copies plain objects
+ * and arrays, the shape of JSON API results; class instances nested in them come back as
+ * plain objects. Other values, and those `structuredClone` rejects such as functions,
+ * are passed through as they are rather than failing the call.
+ */
+export function createCloner(strategy: CloneStrategy | false = false): (value: any) => any {
+  if (strategy === false) return (value) => value;
+  if (typeof strategy === "function") return strategy;
+  if (strategy === "freeze") return deepFreeze;
+  return (value) => {
+    if (!isPlainData(value)) return value;
+    try {
+      return structuredClone(value);
+    } catch {
+      return value;
+    }
+  };
+}
+
+/**
+ * sharesReferences
+ * Whether a store hands back the very objects it was given: a raw `Map`, or a Keyv over a
+ * `Map` with serialization turned off. Other stores return a new copy on every read.
+ */
+export function sharesReferences(store: unknown): boolean {
+  if (store instanceof Map) return true;
+  const keyv = store as { serialize?: unknown; store?: unknown } | null;
+  return (
+    typeof keyv === "object" &&
+    keyv !== null &&
+    "serialize" in keyv &&
+    keyv.serialize === undefined &&
+    keyv.store instanceof Map
+  );
+}
+
+function deepFreeze<T>(value: T): T {
+  if (typeof value !== "object" || value === null || Object.isFrozen(value)) return value;
+  // typed arrays with elements can't be frozen
+  if (ArrayBuffer.isView(value)) return value;
+  Object.freeze(value);
+  for (const field of Object.values(value)) deepFreeze(field);
+  return value;
+}
+
+function isPlainData(value: unknown): value is object {
+  if (Array.isArray(value)) return true;
+  if (typeof value !== "object" || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
@@ -0,0 +1,55 @@
+import { describe, expect, test } from "bun:test";
+import { codecOf, decode, encode } from "./codec.js";
+
+const roundTrip = async (value: unknown) => {
+  const kind = codecOf(value);
+  if (!kind) throw new Error("no codec");
+  return decode(kind, JSON.parse(JSON.stringify(await encode(kind, value))));
+};
+
+describe("codecOf", () => {
+  test("should detect responses and binary payloads only", () => {
+    expect(codecOf(new Response("x"))).toBe("response");
+    expect(codecOf(new ArrayBuffer(1))).toBe("arraybuffer");
+    expect(codecOf(Buffer.from("x"))).toBe("buffer");
+    expect(codecOf(new Uint8Array(1))).toBe("uint8array");
+    expect(codecOf(new Blob(["x"]))).toBe("blob");
+    expect(codecOf({ status: 200 })).toBeUndefined();
+    expect(codecOf("x")).toBeUndefined();
+  });
+});
+
+describe("encode/decode", () => {
+  test("should round-trip a response through JSON", async () => {
+    const response = new Response(JSON.stringify({ ok: true }), {
+      status: 201,
+      statusText: "Created",
+      headers: { "content-type": "application/json", etag: '"abc"' },
+    });
+    const revived = (await roundTrip(response)) as Response;
+
+    expect(revived).toBeInstanceOf(Response);
+    expect(revived.status).toBe(201);
+    expect(revived.statusText).toBe("Created");
+    expect(revived.headers.get("etag")).toBe('"abc"');
+    expect(await revived.json()).toEqual({ ok: true });
+  });
+
+  test("should keep a null body", async () => {
+    const revived = (await roundTrip(new Response(null, { status: 204 }))) as Response;
+    expect(revived.status).toBe(204);
+    expect(revived.body).toBeNull();
+  });
+
+  test("should round-trip binary payloads", async () => {
+    const bytes = new Uint8Array([0, 1, 254, 255]);
+
+    expect(new Uint8Array((await roundTrip(bytes.buffer)) as ArrayBuffer)).toEqual(bytes);
+    expect(await roundTrip(bytes.subarray(1, 3))).toEqual(new Uint8Array([1, 254]));
+    expect(Buffer.isBuffer(await roundTrip(Buffer.from(bytes)))).toBe(true);
+
+    const blob = (await roundTrip(new Blob([bytes], { type: "image/png" }))) as Blob;
+    expect(blob.type).toBe("image/png");
+    expect(new Uint8Array(await blob.arrayBuffer())).toEqual(bytes);
+  });
+});
@@ -0,0 +1,97 @@
+/** Kinds of values the proxy converts to a storable form before caching them */
+export type CodecKind = "response" | "arraybuffer" | "buffer" | "uint8array" | "blob";
+
+/** Storable form of a fetch `Response`, with its body in base64 */
+export type EncodedResponse = {
+  status: number;
+  statusText: string;
+  headers: [string, string][];
+  url: string;
+  body: string | null;
+};
+
+/** Storable form of a `Blob`, with its bytes in base64 */
+export type EncodedBlob = { type: string; body: string };
+
+/**
+ * codecOf
+ * Detect values that JSON stores lose, or that can only be read once:
+ * `Response`, `ArrayBuffer`, `Buffer`, `Uint8Array` and `Blob`.
+ */
+export function codecOf(value: unknown): CodecKind | undefined {
+  if (typeof Response !== "undefined" && value instanceof Response) return "response";
+  if (value instanceof ArrayBuffer) return "arraybuffer";
+  if (Buffer.isBuffer(value)) return "buffer";
+  if (value instanceof Uint8Array) return "uint8array";
+  if (typeof Blob !== "undefined" && value instanceof Blob) return "blob";
+  return undefined;
+}
+
+/**
+ * encode
+ * Convert a value of the given kind to plain JSON: binary payloads become base64 strings.
+ * Reads a `Response` body, so the original response is consumed.
+ */
+export async function encode(kind: CodecKind, value: any): Promise<unknown> {
+  switch (kind) {
+    case "response": {
+      const response = value as Response;
+      const encoded: EncodedResponse = {
+        status: response.status,
+        statusText: response.statusText,
+        headers: [...response.headers],
+        url: response.url,
+        body: response.body === null ? null : toBase64(await response.arrayBuffer()),
+      };
+      return encoded;
+    }
+    case "blob": {
+      const blob = value as Blob;
+      const encoded: EncodedBlob = { type: blob.type, body: toBase64(await blob.arrayBuffer()) };
+      return encoded;
+    }
+    default:
+      return toBase64(value);
+  }
+}
+
+/**
+ * decode
+ * Rebuild a fresh value of the given kind from its encoded form, e.g. a `Response`
+ * whose body can be read again.
+ */
+export function decode(kind: CodecKind, encoded: any): unknown {
+  switch (kind) {
+    case "response": {
+      const { status, statusText, headers, url, body } = encoded as EncodedResponse;
+      const response = new Response(body === null ? null : Buffer.from(body, "base64"), {
+        status,
+        statusText,
+        headers,
+      });
+      // not settable through the constructor
+      if (url) Object.defineProperty(response, "url", { value: url });
+      return response;
+    }
+    case "blob": {
+      const { type, body } = encoded as EncodedBlob;
+      return new Blob([Buffer.from(body, "base64")], { type });
+    }
+    case "arraybuffer": {
+      const bytes = Buffer.from(encoded as string, "base64");
+      return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+    }
+    case "buffer":
+      return Buffer.from(encoded as string, "base64");
+    case "uint8array":
+      return new Uint8Array(Buffer.from(encoded as string, "base64"));
+  }
+}
+
+function toBase64(bytes: ArrayBuffer | Uint8Array) {
+  return (
+    bytes instanceof ArrayBuffer
+      ? Buffer.from(bytes)
+      : Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  ).toString("base64");
+}
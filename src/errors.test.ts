@@ -0,0 +1,31 @@
+import { describe, expect, test } from "bun:test";
+import { reviveError, serializeError } from "./errors.js";
+
+describe("serializeError", () => {
+  test("should keep name, message and the selected fields", () => {
+    const error = Object.assign(new TypeError("Not Found"), { status: 404, request: {} });
+
+    expect(serializeError(error)).toEqual({ name: "TypeError", message: "Not Found", status: 404 });
+    expect(serializeError(error, ["request"])).toEqual({
+      name: "TypeError",
+      message: "Not Found",
+      request: {},
+    });
+  });
+
+  test("should stringify non-Error throws", () => {
+    expect(serializeError("boom")).toEqual({ name: "Error", message: "boom" });
+  });
+});
+
+describe("reviveError", () => {
+  test("should round-trip through JSON", () => {
+    const error = Object.assign(new Error("Not Found"), { name: "HttpError", status: 404 });
+    const revived = reviveError(JSON.parse(JSON.stringify(serializeError(error))));
+
+    expect(revived).toBeInstanceOf(Error);
+    expect(revived.name).toBe("HttpError");
+    expect(revived.message).toBe("Not Found");
+    expect((revived as Error & { status: number }).status).toBe(404);
+  });
+});
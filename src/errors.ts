@@ -0,0 +1,36 @@
+export type CacheErrorsOptions = {
+  /** Which thrown errors to cache, e.g. `(error) => error.status === 404` */
+  when: (error: any, path: string) => boolean;
+  /** Time-to-live of cached errors in milliseconds. Default: the method's `ttl` */
+  ttl?: number;
+  /** Error properties kept besides `name` and `message`. Default: `["status", "code"]` */
+  fields?: string[];
+};
+
+/** The cached form of a thrown error */
+export type SerializedError = { name: string; message: string; [field: string]: unknown };
+
+/**
+ * serializeError
+ * Reduce a thrown value to its name, message and selected fields, so it survives any store.
+ * Fields holding undefined are dropped; non-Error throws keep their string form as the message.
+ */
+export function serializeError(error: unknown, fields = ["status", "code"]): SerializedError {
+  if (!(error instanceof Error)) return { name: "Error", message: String(error) };
+  const serialized: SerializedError = { name: error.name, message: error.message };
+  for (const field of fields) {
+    const value = (error as unknown as Record<string, unknown>)[field];
+    if (value !== undefined) serialized[field] = value;
+  }
+  return serialized;
+}
+
+/**
+ * reviveError
+ * Rebuild an `Error` carrying the serialized name, message and fields, to rethrow on a cache hit.
+ */
+export function reviveError({ name, message, ...fields }: SerializedError): Error {
+  const error = new Error(message);
+  error.name = name;
+  return Object.assign(error, fields);
+}
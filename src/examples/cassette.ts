@@ -0,0 +1,30 @@
+#!/usr/bin/env bun
+/**
+ * Example: Record/replay GitHub API calls with a cassette
+ * Record once against the real API, then replay from the fixture file with no network access,
+ * e.g. in CI. Unrecorded calls throw in replay mode instead of reaching GitHub.
+ *
+ * record: `CASSETTE=record bun src/examples/cassette.ts`
+ * replay: `bun src/examples/cassette.ts`
+ */
+
+import { Keyv } from "keyv";
+import { Octokit } from "octokit";
+import KeyvCacheProxy, { type CassetteMode } from "../index.js";
+
+const gh = KeyvCacheProxy({
+  store: new Keyv(),
+  prefix: `github.`,
+  cassette: {
+    file: "fixtures/github.json",
+    mode: (process.env.CASSETTE as CassetteMode | undefined) ?? "replay",
+  },
+})(
+  new Octokit({
+    // auth
+  }).rest,
+);
+
+console.log((await gh.repos.get({ owner: "snomiao", repo: "snomiao" })).data.html_url);
+// record: fetched from GitHub and written to fixtures/github.json
+// replay: served from fixtures/github.json
@@ -0,0 +1,37 @@
+#!/usr/bin/env bun
+/**
+ * Benchmark: cost of the `clone` strategies on cache hits from a Map store
+ * Each hit returns a list of 30 GitHub-issue-like objects (about 40 KB of JSON).
+ * A default `Keyv` store, which serializes every value, is measured for comparison.
+ *
+ * run: `bun src/examples/clone-benchmark.ts`
+ */
+
+import { Keyv } from "keyv";
+import KeyvCacheProxy, { type CloneOptions } from "../index.js";
+
+const issues = Array.from({ length: 30 }, (_, i) => ({
+  id: i,
+  number: i + 1,
+  title: `Issue ${i}`,
+  body: "x".repeat(1000),
+  labels: [{ id: 1, name: "bug", color: "d73a4a" }],
+  user: { login: "octocat", id: 1, site_admin: false },
+  created_at: "2024-01-01T00:00:00Z",
+}));
+const api = { list: async () => ({ status: 200, data: issues }) };
+const hits = 10000;
+
+async function bench(label: string, store: Keyv | Map<string, unknown>, clone: CloneOptions) {
+  const cached = KeyvCacheProxy({ store, clone, metrics: false })(api);
+  await cached.list();
+  const started = performance.now();
+  for (let i = 0; i < hits; i++) await cached.list();
+  const perHit = ((performance.now() - started) * 1000) / hits;
+  console.log(`${label}: ${perHit.toFixed(1)}µs per hit`);
+}
+
+await bench("Map, clone: false", new Map(), false);
+await bench('Map, clone: "freeze"', new Map(), "freeze");
+await bench('Map, clone: "structured"', new Map(), "structured");
+await bench("Keyv (JSON serialization), clone: false", new Keyv(), false);
@@ -9,7 +9,7 @@
 
 import { Keyv } from "keyv";
 import { Octokit } from "octokit";
-import KeyvCacheProxy from "../index";
+import KeyvCacheProxy from "../index.js";
 
 const kv = new Keyv({ ttl: 600e3 }); // 10 minutes TTL
 const gh = KeyvCacheProxy({
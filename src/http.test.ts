@@ -0,0 +1,62 @@
+import { describe, expect, test } from "bun:test";
+import { conditionalHeaders, freshness, headerOf, validatorsOf } from "./http.js";
+
+const response = (headers: Record<string, string>) => ({ status: 200, headers, data: {} });
+
+describe("headerOf", () => {
+  test("should read headers of plain, array and Headers forms case-insensitively", () => {
+    expect(headerOf(response({ ETag: '"a"' }), "etag")).toBe('"a"');
+    expect(headerOf({ status: 200, headers: [["etag", '"b"']] }, "etag")).toBe('"b"');
+    expect(headerOf(new Response(null, { headers: { ETag: '"c"' } }), "etag")).toBe('"c"');
+    expect(headerOf({ headers: { etag: '"d"' } }, "etag")).toBeUndefined();
+    expect(headerOf("text", "etag")).toBeUndefined();
+  });
+});
+
+describe("freshness", () => {
+  test("should derive the TTL from s-maxage, max-age and age", () => {
+    expect(freshness(response({ "cache-control": "public, max-age=60" }))).toEqual({
+      store: true,
+      ttl: 60000,
+    });
+    expect(freshness(response({ "cache-control": "max-age=60, s-maxage=30" }))?.ttl).toBe(30000);
+    expect(freshness(response({ "cache-control": "max-age=60", age: "20" }))?.ttl).toBe(40000);
+    expect(freshness(response({ "cache-control": "private" }))).toBeUndefined();
+    expect(freshness(response({}))).toBeUndefined();
+  });
+
+  test("should refuse no-store, and stale responses without validators", () => {
+    expect(freshness(response({ "cache-control": "no-store, max-age=60" }))).toEqual({
+      store: false,
+    });
+    expect(freshness(response({ "cache-control": "no-cache" }))).toEqual({ store: false, ttl: 0 });
+    expect(freshness(response({ "cache-control": "no-cache", etag: '"a"' }))).toEqual({
+      store: true,
+      ttl: 0,
+    });
+  });
+});
+
+describe("conditionalHeaders", () => {
+  test("should add validators to the headers of the first argument", () => {
+    expect(validatorsOf(response({ "last-modified": "Mon" }))).toEqual({
+      etag: undefined,
+      lastModified: "Mon",
+    });
+    expect(
+      conditionalHeaders([{ owner: "o", headers: { accept: "json" } }, 1], {
+        etag: '"a"',
+        lastModified: "Mon",
+      }),
+    ).toEqual([
+      {
+        owner: "o",
+        headers: { accept: "json", "if-none-match": '"a"', "if-modified-since": "Mon" },
+      },
+      1,
+    ]);
+    expect(conditionalHeaders([], { etag: '"a"' })).toEqual([
+      { headers: { "if-none-match": '"a"' } },
+    ]);
+  });
+});
@@ -0,0 +1,98 @@
+/** Validators of a cached response, sent back on a conditional request */
+export type Validators = { etag?: string; lastModified?: string };
+
+export type HttpOptions = {
+  /**
+   * Build the arguments of a conditional call from the original arguments and the cached
+   * validators. Default: `conditionalHeaders`, which suits Octokit-style `(params)` methods.
+   */
+  conditional?: (args: any[], validators: Validators) => any[];
+  /**
+   * How long entries carrying an ETag or Last-Modified stay in the store past their expiry,
+   * so they can still be revalidated, in milliseconds. Default: 1 day
+   */
+  revalidateWindow?: number;
+};
+
+type HeadersLike = Headers | [string, string][] | Record<string, unknown>;
+type ResponseLike = { status: number; headers: HeadersLike };
+
+/** `{ status, headers }` results, such as Octokit responses, fetch `Response`s and their encoded form */
+function isResponseLike(value: unknown): value is ResponseLike {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as ResponseLike).status === "number" &&
+    typeof (value as ResponseLike).headers === "object" &&
+    (value as ResponseLike).headers !== null
+  );
+}
+
+/** Read a response header case-insensitively */
+export function headerOf(value: unknown, name: string): string | undefined {
+  if (!isResponseLike(value)) return undefined;
+  const { headers } = value;
+  if (typeof Headers !== "undefined" && headers instanceof Headers) {
+    return headers.get(name) ?? undefined;
+  }
+  const entries = Array.isArray(headers) ? headers : Object.entries(headers);
+  const found = entries.find(([key]) => key.toLowerCase() === name);
+  return found?.[1] === undefined ? undefined : String(found[1]);
+}
+
+export function validatorsOf(value: unknown): Validators | undefined {
+  const etag = headerOf(value, "etag");
+  const lastModified = headerOf(value, "last-modified");
+  return etag || lastModified ? { etag, lastModified } : undefined;
+}
+
+export function isNotModified(value: unknown): boolean {
+  return (value as { status?: unknown } | null)?.status === 304;
+}
+
+/**
+ * freshness
+ * What a response's `cache-control` allows: `store: false` for `no-store`, or for a response
+ * that is already stale and has no validator to revalidate it with, and the TTL from
+ * `s-maxage` (preferred, as the store may be shared) or `max-age`, minus the `age` header.
+ * Undefined when the value is not a response or says nothing about caching.
+ */
+export function freshness(value: unknown): { store: boolean; ttl?: number } | undefined {
+  const header = headerOf(value, "cache-control");
+  if (header === undefined) return undefined;
+  const directives = new Map(
+    header.split(",").map((directive) => {
+      const [name = "", arg] = directive.trim().toLowerCase().split("=");
+      return [name, arg?.replace(/^"|"$/g, "")];
+    }),
+  );
+  if (directives.has("no-store")) return { store: false };
+  const maxAge = Number(
+    directives.get("s-maxage") ??
+      directives.get("max-age") ??
+      (directives.has("no-cache") ? 0 : NaN),
+  );
+  if (Number.isNaN(maxAge)) return undefined;
+  const ttl = Math.max(0, (maxAge - (Number(headerOf(value, "age")) || 0)) * 1000);
+  return { store: ttl > 0 || validatorsOf(value) !== undefined, ttl };
+}
+
+/**
+ * conditionalHeaders
+ * Default `conditional` builder: adds `if-none-match` and `if-modified-since` to the `headers`
+ * of the first argument, e.g. `octokit.rest.repos.get({ owner, repo, headers })`.
+ */
+export function conditionalHeaders(args: any[], { etag, lastModified }: Validators): any[] {
+  const [params = {}, ...rest] = args;
+  return [
+    {
+      ...params,
+      headers: {
+        ...params.headers,
+        ...(etag && { "if-none-match": etag }),
+        ...(lastModified && { "if-modified-since": lastModified }),
+      },
+    },
+    ...rest,
+  ];
+}
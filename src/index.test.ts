@@ -1,6 +1,16 @@
 import { beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import Keyv from "keyv";
-import KeyvCacheProxy, { globalThisCached } from "./index";
+import KeyvCacheProxy, {
+  $cache,
+  type CacheMeta,
+  globalThisCached,
+  memoryBus,
+  rateLimitHeaders,
+  withMode,
+} from "./index.js";
 
 describe("KeyvCacheProxy", () => {
   let store: Keyv;
@@ -368,6 +378,95 @@ describe("KeyvCacheProxy", () => {
     });
   });
 
+  describe("Hooks - Metadata", () => {
+    test("should pass entry metadata to onFetched and onCached", async () => {
+      const fetchedMeta: CacheMeta[] = [];
+      const cachedMeta: Array<CacheMeta | undefined> = [];
+      const obj = {
+        getValue: () => 42,
+      };
+
+      const cached = KeyvCacheProxy({
+        store,
+        ttl: 60000,
+        onCached: (_key, _value, meta) => {
+          cachedMeta.push(meta);
+          return undefined;
+        },
+        onFetched: (_key, _value, meta) => {
+          fetchedMeta.push(meta);
+          return undefined;
+        },
+      })(obj);
+
+      const before = Date.now();
+      await cached.getValue();
+      await cached.getValue();
+
+      expect(cachedMeta[0]).toBeUndefined(); // cache miss
+      expect(fetchedMeta[0]?.fetchedAt).toBeGreaterThanOrEqual(before);
+      expect(fetchedMeta[0]?.expiresAt).toBe((fetchedMeta[0]?.fetchedAt ?? 0) + 60000);
+      expect(cachedMeta[1]).toEqual({
+        fetchedAt: fetchedMeta[0]?.fetchedAt ?? 0,
+        expiresAt: fetchedMeta[0]?.expiresAt,
+        tags: [],
+        schemaVersion: 1,
+      });
+    });
+
+    test("should store values in an envelope", async () => {
+      const obj = { getValue: () => "value" };
+
+      const cached = KeyvCacheProxy({ store, ttl: 1000 })(obj);
+      await cached.getValue();
+
+      const entry = await store.get("getValue()");
+      expect(entry).toMatchObject({ v: "value", tags: [], schemaVersion: 1 });
+      expect(entry.expiresAt - entry.fetchedAt).toBe(1000);
+    });
+
+    test("should read raw values written before the envelope", async () => {
+      let callCount = 0;
+      const metas: Array<CacheMeta | undefined> = [];
+      await store.set("getValue()", { data: "legacy" });
+      const obj = {
+        getValue: () => {
+          callCount++;
+          return { data: "fresh" };
+        },
+      };
+
+      const cached = KeyvCacheProxy({
+        store,
+        onCached: (_key, _value, meta) => {
+          metas.push(meta);
+          return undefined;
+        },
+      })(obj);
+
+      expect(await cached.getValue()).toEqual({ data: "legacy" });
+      expect(metas).toEqual([undefined]);
+      expect(callCount).toBe(0);
+    });
+
+    test("should expire entries in stores without native TTL", async () => {
+      let callCount = 0;
+      const obj = {
+        getValue: () => {
+          callCount++;
+          return callCount;
+        },
+      };
+
+      const cached = KeyvCacheProxy({ store: new Map(), ttl: 30 })(obj);
+
+      expect(await cached.getValue()).toBe(1);
+      expect(await cached.getValue()).toBe(1);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(await cached.getValue()).toBe(2);
+    });
+  });
+
   describe("Nested Objects", () => {
     test("should handle nested object methods", async () => {
       let callCount = 0;
@@ -481,136 +580,1976 @@ describe("KeyvCacheProxy", () => {
     });
   });
 
-  describe("TTL", () => {
-    test("should expire cache after TTL", async () => {
+  describe("Key Derivation", () => {
+    test("should derive the same key regardless of object key order", async () => {
       let callCount = 0;
       const obj = {
-        getValue: () => {
-          callCount++;
-          return callCount;
-        },
+        get: (_params: { owner: string; repo: string }) => ++callCount,
       };
 
+      const cached = KeyvCacheProxy({ store })(obj);
+
+      await cached.get({ owner: "snomiao", repo: "keyv" });
+      await cached.get({ repo: "keyv", owner: "snomiao" });
+      expect(callCount).toBe(1);
+    });
+
+    test("should not crash on circular arguments", async () => {
+      const arg: Record<string, unknown> = { id: 1 };
+      arg.self = arg;
+      const obj = { process: (data: Record<string, unknown>) => data.id };
+
+      const cached = KeyvCacheProxy({ store })(obj);
+      expect(await cached.process(arg)).toBe(1);
+    });
+
+    test("should use a custom keyFn with the dotted method path", async () => {
+      const keys: string[] = [];
+      const obj = { users: { get: (id: number) => ({ id }) } };
+
       const cached = KeyvCacheProxy({
         store,
-        ttl: 100, // 100ms
+        prefix: "app:",
+        keyFn: (path, args) => `${path}/${args.join("/")}`,
+        onFetched: (key) => {
+          keys.push(key);
+          return undefined;
+        },
       })(obj);
 
-      const result1 = await cached.getValue();
-      expect(result1).toBe(1);
+      await cached.users.get(7);
+      expect(keys).toEqual(["app:users.get/7"]);
+    });
 
-      const result2 = await cached.getValue();
-      expect(result2).toBe(1); // Cached
+    test("should use a custom serializer", async () => {
+      const keys: string[] = [];
+      const obj = { get: (id: number) => id };
 
-      // Wait for TTL to expire
-      await new Promise((resolve) => setTimeout(resolve, 150));
+      const cached = KeyvCacheProxy({
+        store,
+        serialize: (arg) => `<${String(arg)}>`,
+        onFetched: (key) => {
+          keys.push(key);
+          return undefined;
+        },
+      })(obj);
 
-      const result3 = await cached.getValue();
-      expect(result3).toBe(2); // Fresh call
+      await cached.get(7);
+      expect(keys).toEqual(["get(<7>)"]);
     });
 
-    test("should support custom TTL from onFetched", async () => {
-      let callCount = 0;
+    test("should hash long arguments and keep the method path readable", async () => {
+      const keys: string[] = [];
+      const obj = { api: { search: (query: string) => query.length } };
+
+      const cached = KeyvCacheProxy({
+        store,
+        prefix: "app:",
+        hashKeys: 32,
+        onFetched: (key) => {
+          keys.push(key);
+          return undefined;
+        },
+      })(obj);
+
+      await cached.api.search("short");
+      await cached.api.search("x".repeat(1000));
+      expect(keys[0]).toBe('app:api.search("short")');
+      expect(keys[1]).toMatch(/^app:api\.search\(#[0-9a-f]{64}\)$/);
+    });
+  });
+
+  describe("Policies", () => {
+    test("should never cache methods disabled by a policy", async () => {
+      let created = 0;
       const obj = {
-        getValue: () => {
-          callCount++;
-          return callCount;
+        issues: {
+          create: () => ++created,
+          get: () => "issue",
         },
       };
 
+      const cached = KeyvCacheProxy({ store, policies: { "!*.create": true } })(obj);
+
+      await cached.issues.create();
+      await cached.issues.create();
+      expect(created).toBe(2);
+      expect(await store.get("issues.create()")).toBeUndefined();
+
+      await cached.issues.get();
+      expect(await store.get("issues.get()")).toBeDefined();
+    });
+
+    test("should apply per-method TTL resolved against the full nested path", async () => {
+      const ttls: Array<number | undefined> = [];
+      const obj = {
+        repos: { get: () => "repo", listBranches: () => ["main"] },
+      };
+
       const cached = KeyvCacheProxy({
         store,
-        ttl: 10000, // Default 10s
-        onFetched: (_key, value) => {
-          // Use custom TTL of 100ms
-          return { data: value, ttl: 100 };
+        ttl: 1000,
+        policies: { "repos.get": { ttl: 5000 } },
+        onFetched: (_key, _value, meta) => {
+          ttls.push((meta.expiresAt ?? 0) - meta.fetchedAt);
+          return undefined;
         },
       })(obj);
 
-      const result1 = await cached.getValue();
-      expect(result1).toBe(1);
+      await cached.repos.get();
+      await cached.repos.listBranches();
+      expect(ttls).toEqual([5000, 1000]);
+    });
 
-      const result2 = await cached.getValue();
-      expect(result2).toBe(1); // Cached
+    test("should use a policy keyFn", async () => {
+      const obj = { users: { get: (id: number, _opts?: object) => ({ id }) } };
 
-      // Wait for custom TTL to expire (100ms)
-      await new Promise((resolve) => setTimeout(resolve, 150));
+      const cached = KeyvCacheProxy({
+        store,
+        policies: { "users.get": { keyFn: (path, [id]) => `${path}:${id}` } },
+      })(obj);
 
-      const result3 = await cached.getValue();
-      expect(result3).toBe(2); // Fresh call due to custom TTL
+      await cached.users.get(1, { verbose: true });
+      expect(await store.get("users.get:1")).toMatchObject({ v: { id: 1 } });
     });
   });
 
-  describe("Non-function Properties", () => {
-    test("should return non-function properties as-is", async () => {
+  describe("Control", () => {
+    const makeObj = () => {
+      const calls = { get: 0, list: 0 };
       const obj = {
-        value: 42,
-        text: "hello",
-        method: () => "result",
+        value: 1,
+        repos: {
+          get: (params: { owner: string; repo: string }) => {
+            calls.get++;
+            return { ...params, n: calls.get };
+          },
+          getBranch: (name: string) => name,
+          listBranches: () => {
+            calls.list++;
+            return ["main"];
+          },
+        },
       };
+      return { obj, calls };
+    };
+
+    test("should invalidate one call with the proxy's key derivation", async () => {
+      const { obj, calls } = makeObj();
+      const cached = KeyvCacheProxy({ store, prefix: "gh." })(obj);
+
+      await cached.repos.get({ owner: "a", repo: "b" });
+      expect(
+        await KeyvCacheProxy.control(cached).invalidate("repos.get", { repo: "b", owner: "a" }),
+      ).toBe(true);
+      await cached.repos.get({ owner: "a", repo: "b" });
+      expect(calls.get).toBe(2);
+    });
 
+    test("should expose the control surface under the $cache symbol", async () => {
+      const { obj } = makeObj();
       const cached = KeyvCacheProxy({ store })(obj);
+      expect((cached as any)[$cache]).toBeDefined();
+      expect(Object.keys(cached)).toEqual(["value", "repos"]);
+    });
 
-      expect(cached.value).toBe(42);
-      expect(cached.text).toBe("hello");
+    test("should resolve paths relative to a nested proxy", async () => {
+      const { obj, calls } = makeObj();
+      const cached = KeyvCacheProxy({ store })(obj);
+
+      await cached.repos.listBranches();
+      await KeyvCacheProxy.control(cached.repos).invalidate("listBranches");
+      await cached.repos.listBranches();
+      expect(calls.list).toBe(2);
     });
 
-    test("should handle null and undefined properties", async () => {
-      const obj = {
-        nullValue: null as null,
-        undefinedValue: undefined as undefined,
-        method: () => "result",
-      };
+    test("should invalidate by prefix on path boundaries", async () => {
+      const { obj } = makeObj();
+      const cached = KeyvCacheProxy({ store: new Map(), prefix: "gh." })(obj);
 
+      await cached.repos.get({ owner: "a", repo: "b" });
+      await cached.repos.get({ owner: "a", repo: "c" });
+      await cached.repos.getBranch("main");
+      await cached.repos.listBranches();
+
+      const control = KeyvCacheProxy.control(cached);
+      expect(await control.invalidatePrefix("repos.get")).toBe(2);
+      expect(await control.peek("repos.getBranch", "main")).toBe("main");
+      expect(await control.invalidatePrefix()).toBe(2);
+      expect(await control.peek("repos.listBranches")).toBeUndefined();
+    });
+
+    test("should invalidate by prefix in a Keyv store", async () => {
+      const { obj } = makeObj();
       const cached = KeyvCacheProxy({ store })(obj);
 
-      expect(cached.nullValue).toBe(null);
-      expect(cached.undefinedValue).toBe(undefined);
+      await cached.repos.get({ owner: "a", repo: "b" });
+      await cached.repos.listBranches();
+      expect(await KeyvCacheProxy.control(cached).invalidatePrefix("repos")).toBe(2);
+    });
+
+    test("should peek and set entries without calling the method", async () => {
+      const { obj, calls } = makeObj();
+      const cached = KeyvCacheProxy({ store, ttl: 1000 })(obj);
+      const control = KeyvCacheProxy.control(cached);
+
+      expect(await control.peek("repos.get", { owner: "a", repo: "b" })).toBeUndefined();
+      await control.set("repos.get", [{ owner: "a", repo: "b" }], { seeded: true });
+      expect(await control.peek("repos.get", { owner: "a", repo: "b" })).toEqual({ seeded: true });
+      expect(await cached.repos.get({ owner: "a", repo: "b" })).toEqual({ seeded: true } as any);
+      expect(calls.get).toBe(0);
+    });
+
+    test("should reject objects that are not proxies", () => {
+      expect(() => KeyvCacheProxy.control({})).toThrow("not a KeyvCacheProxy");
     });
   });
 
-  describe("Edge Cases", () => {
-    test("should handle methods with no arguments", async () => {
-      let callCount = 0;
+  describe("Tags", () => {
+    const makeObj = () => {
+      const calls: string[] = [];
       const obj = {
-        getValue: () => {
-          callCount++;
-          return "value";
+        repos: {
+          get: ({ repo }: { repo: string }) => {
+            calls.push(`repos.get:${repo}`);
+            return { repo };
+          },
+          listBranches: ({ repo }: { repo: string }) => {
+            calls.push(`repos.listBranches:${repo}`);
+            return [`${repo}/main`];
+          },
         },
       };
+      return { obj, calls };
+    };
 
-      const cached = KeyvCacheProxy({ store })(obj);
+    test("should invalidate every entry tagged by a policy", async () => {
+      const { obj, calls } = makeObj();
+      const cached = KeyvCacheProxy({
+        store,
+        policies: { "repos.*": { tags: ([{ repo }]) => [`repo:${repo}`] } },
+      })(obj);
 
-      await cached.getValue();
-      await cached.getValue();
-      expect(callCount).toBe(1);
+      await cached.repos.get({ repo: "a" });
+      await cached.repos.listBranches({ repo: "a" });
+      await cached.repos.get({ repo: "b" });
+
+      expect(await KeyvCacheProxy.control(cached).invalidateTag("repo:a")).toBe(2);
+
+      await cached.repos.get({ repo: "a" });
+      await cached.repos.listBranches({ repo: "a" });
+      await cached.repos.get({ repo: "b" });
+      expect(calls).toEqual([
+        "repos.get:a",
+        "repos.listBranches:a",
+        "repos.get:b",
+        "repos.get:a",
+        "repos.listBranches:a",
+      ]);
     });
 
-    test("should handle methods with complex object arguments", async () => {
-      let callCount = 0;
+    test("should attach tags returned from onFetched", async () => {
+      const { obj, calls } = makeObj();
+      const cached = KeyvCacheProxy({
+        store,
+        onFetched: (_key, value) => ({ tags: [`repo:${value.repo ?? value[0]}`] }),
+      })(obj);
+
+      await cached.repos.get({ repo: "a" });
+      const entry = await store.get('repos.get({"repo":"a"})');
+      expect(entry.tags).toEqual(["repo:a"]);
+
+      await KeyvCacheProxy.control(cached).invalidateTag("repo:a");
+      await cached.repos.get({ repo: "a" });
+      expect(calls).toEqual(["repos.get:a", "repos.get:a"]);
+    });
+
+    test("should invalidate entries written by another proxy sharing the store", async () => {
+      const { obj, calls } = makeObj();
+      const options = { store, policies: { "repos.*": { tags: ["repos"] } } };
+      const worker1 = KeyvCacheProxy(options)(obj);
+      const worker2 = KeyvCacheProxy(options)(obj);
+
+      await worker1.repos.get({ repo: "a" });
+      await KeyvCacheProxy.control(worker2).invalidateTag("repos");
+      await worker1.repos.get({ repo: "a" });
+      expect(calls).toEqual(["repos.get:a", "repos.get:a"]);
+    });
+
+    test("should tolerate index entries that outlive their values", async () => {
+      const { obj } = makeObj();
+      const cached = KeyvCacheProxy({
+        store,
+        policies: { "repos.get": { tags: ["repos"] } },
+      })(obj);
+      const control = KeyvCacheProxy.control(cached);
+
+      await cached.repos.get({ repo: "a" });
+      await cached.repos.get({ repo: "b" });
+      await control.invalidate("repos.get", { repo: "a" }); // value gone, index entry remains
+      await control.set("repos.get", [{ repo: "b" }], { repo: "seeded" }); // rewritten untagged
+
+      expect(await control.invalidateTag("repos")).toBe(0);
+      expect(await control.peek("repos.get", { repo: "b" })).toEqual({ repo: "seeded" });
+      expect(await control.invalidateTag("unknown")).toBe(0);
+    });
+
+    test("should expire the tag index and prune keys whose entries left the store", async () => {
+      const { obj } = makeObj();
+      const store = new Map();
+      const cached = KeyvCacheProxy({
+        store,
+        policies: {
+          "repos.get": { ttl: 20, tags: ["repos"] },
+          "repos.listBranches": { ttl: 60000, tags: ["repos"] },
+        },
+      })(obj);
+
+      await cached.repos.get({ repo: "a" });
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      await cached.repos.listBranches({ repo: "b" });
+      expect(Object.keys(store.get("__tag__:repos"))).toEqual(['repos.listBranches({"repo":"b"})']);
+
+      const keyv = new Keyv();
+      const setCalls: (number | undefined)[] = [];
+      const set = keyv.set.bind(keyv);
+      keyv.set = ((key: string, value: unknown, ttl?: number) => {
+        if (key === "__tag__:repos") setCalls.push(ttl);
+        return set(key, value, ttl);
+      }) as typeof keyv.set;
+      await KeyvCacheProxy({
+        store: keyv,
+        policies: { "repos.get": { ttl: 1000, tags: ["repos"] } },
+      })(obj).repos.get({ repo: "a" });
+      expect(setCalls[0]).toBeGreaterThan(900);
+      expect(setCalls[0]).toBeLessThanOrEqual(1000);
+    });
+  });
+
+  describe("Mutations", () => {
+    type IssueParams = { owner: string; repo: string; issue_number: number; title?: string };
+    const makeObj = () => {
+      const issues = new Map([[1, "first"]]);
+      const calls: string[] = [];
       const obj = {
-        process: (data: { id: number; nested: { value: string } }) => {
-          callCount++;
-          return data.nested.value;
+        issues: {
+          get: ({ issue_number }: IssueParams) => {
+            calls.push("get");
+            return { title: issues.get(issue_number) };
+          },
+          listForRepo: (_params: { owner: string; repo: string }) => {
+            calls.push("list");
+            return [...issues.values()];
+          },
+          update: ({ issue_number, title }: IssueParams) => {
+            calls.push("update");
+            if (!title) throw new Error("title required");
+            issues.set(issue_number, title);
+            return { title };
+          },
         },
       };
+      return { obj, calls };
+    };
+    const params = { owner: "a", repo: "b", issue_number: 1 };
 
-      const cached = KeyvCacheProxy({ store })(obj);
+    test("should treat mutations called through apply as mutations", async () => {
+      const { obj, calls } = makeObj();
+      const cached = KeyvCacheProxy({
+        store: new Map(),
+        mutations: { "issues.update": ["issues.get"] },
+      })(obj);
 
-      const arg = { id: 1, nested: { value: "test" } };
-      await cached.process(arg);
-      await cached.process(arg);
-      expect(callCount).toBe(1);
+      await cached.issues.get(params);
+      await cached.issues.update.apply(cached.issues, [{ ...params, title: "second" }]);
+      await cached.issues.update.apply(cached.issues, [{ ...params, title: "second" }]);
+      expect(await cached.issues.get(params)).toEqual({ title: "second" });
+      expect(calls).toEqual(["get", "update", "update", "get"]);
     });
 
-    test("should handle undefined cache values", async () => {
+    test("should invalidate projected reads after a successful mutation", async () => {
+      const { obj } = makeObj();
+      const cached = KeyvCacheProxy({
+        store: new Map(),
+        mutations: {
+          "issues.update": [
+            {
+              path: "issues.get",
+              args: ([{ owner, repo, issue_number }]) => [{ owner, repo, issue_number }],
+            },
+            "issues.listForRepo",
+          ],
+        },
+      })(obj);
+
+      expect(await cached.issues.get(params)).toEqual({ title: "first" });
+      expect(await cached.issues.listForRepo({ owner: "a", repo: "b" })).toEqual(["first"]);
+
+      await cached.issues.update({ ...params, title: "renamed" });
+
+      expect(await cached.issues.get(params)).toEqual({ title: "renamed" });
+      expect(await cached.issues.listForRepo({ owner: "a", repo: "b" })).toEqual(["renamed"]);
+    });
+
+    test("should never cache mutating calls", async () => {
+      const { obj, calls } = makeObj();
+      const cached = KeyvCacheProxy({
+        store,
+        mutations: { "*.update": [] },
+        policies: { "*.update": { ttl: 1000 } },
+      })(obj);
+
+      await cached.issues.update({ ...params, title: "x" });
+      await cached.issues.update({ ...params, title: "x" });
+      expect(calls).toEqual(["update", "update"]);
+    });
+
+    test("should keep cached reads when the mutation fails", async () => {
+      const { obj, calls } = makeObj();
+      const cached = KeyvCacheProxy({
+        store,
+        mutations: { "issues.update": { path: "issues.get" } },
+      })(obj);
+
+      await cached.issues.get(params);
+      await expect(cached.issues.update(params)).rejects.toThrow("title required");
+      await cached.issues.get(params);
+      expect(calls).toEqual(["get", "update"]);
+    });
+
+    test("should invalidate tags derived from the mutation", async () => {
+      const { obj, calls } = makeObj();
+      const cached = KeyvCacheProxy({
+        store,
+        policies: { "issues.get": { tags: ([{ issue_number }]) => [`issue:${issue_number}`] } },
+        mutations: { "issues.update": { tag: ([{ issue_number }]) => `issue:${issue_number}` } },
+      })(obj);
+
+      await cached.issues.get(params);
+      await cached.issues.update({ ...params, title: "renamed" });
+      expect(await cached.issues.get(params)).toEqual({ title: "renamed" });
+      expect(calls).toEqual(["get", "update", "get"]);
+    });
+  });
+
+  describe("Metrics", () => {
+    test("should count hits, misses, stale serves and errors per method path", async () => {
+      let fail = false;
       const obj = {
-        getValue: () => undefined,
+        repos: {
+          get: (id: number) => {
+            if (fail) throw new Error("Upstream down");
+            return { id };
+          },
+        },
       };
 
-      const cached = KeyvCacheProxy({ store })(obj);
-      const result = await cached.getValue();
-      expect(result).toBe(undefined);
+      const cached = KeyvCacheProxy({ store, ttl: 30, staleIfError: 1000 })(obj);
+
+      await cached.repos.get(1); // miss
+      await cached.repos.get(1); // hit
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      fail = true;
+      await cached.repos.get(1); // miss, upstream error, stale served
+      await expect(cached.repos.get(2)).rejects.toThrow(); // miss, upstream error
+
+      const stats = KeyvCacheProxy.control(cached).getStats()["repos.get"];
+      expect(stats).toMatchObject({ hits: 1, misses: 3, stale: 1, upstreamErrors: 2 });
+      expect(stats?.upstreamLatency.count).toBe(3);
+      expect(stats?.storeLatency.count).toBeGreaterThanOrEqual(4);
+    });
+
+    test("should count store errors", async () => {
+      const failing = new Map();
+      failing.get = () => {
+        throw new Error("Store down");
+      };
+      const cached = KeyvCacheProxy({ store: failing })({ get: () => 1 });
+
+      await expect(cached.get()).rejects.toThrow("Store down");
+      expect(KeyvCacheProxy.control(cached).getStats().get?.storeErrors).toBe(1);
+    });
+
+    test("should collect nothing when metrics are disabled", async () => {
+      const cached = KeyvCacheProxy({ store, metrics: false })({ get: () => 1 });
+      await cached.get();
+      expect(KeyvCacheProxy.control(cached).getStats()).toEqual({});
+    });
+  });
+
+  describe("L1", () => {
+    const countingStore = () => {
+      const map = new Map();
+      const counts = { get: 0 };
+      const get = map.get.bind(map);
+      map.get = (key) => {
+        counts.get++;
+        return get(key);
+      };
+      return { map, counts };
+    };
+
+    test("should serve repeated reads from memory without hitting the store", async () => {
+      const { map, counts } = countingStore();
+      let callCount = 0;
+      const cached = KeyvCacheProxy({ store: map, l1: { max: 10 } })({ get: () => ++callCount });
+
+      await cached.get(); // store miss, fetch, both tiers written
+      await cached.get();
+      await cached.get();
+      expect(callCount).toBe(1);
+      expect(counts.get).toBe(1);
+    });
+
+    test("should fall back to the store once the L1 TTL expires", async () => {
+      const { map, counts } = countingStore();
+      const cached = KeyvCacheProxy({ store: map, ttl: 10000, l1: { ttl: 20 } })({ get: () => 1 });
+
+      await cached.get();
+      await cached.get();
+      expect(counts.get).toBe(1);
+
+      await new Promise((resolve) => setTimeout(resolve, 40));
+      await cached.get(); // L1 expired, store still fresh
+      await cached.get(); // refilled from the store
+      expect(counts.get).toBe(2);
+    });
+
+    test("should clear both tiers on invalidation", async () => {
+      let callCount = 0;
+      const cached = KeyvCacheProxy({
+        store: new Map(),
+        l1: true,
+        policies: { "repos.*": { tags: ["repos"] } },
+      })({ repos: { get: (id: number) => ({ id, n: ++callCount }) } });
+      const control = KeyvCacheProxy.control(cached);
+
+      await cached.repos.get(1);
+      await control.invalidate("repos.get", 1);
+      await cached.repos.get(1);
+      await control.invalidatePrefix("repos");
+      await cached.repos.get(1);
+      await control.invalidateTag("repos");
+      await cached.repos.get(1);
+      expect(callCount).toBe(4);
+    });
+  });
+
+  describe("Invalidation Bus", () => {
+    const makeWorkers = () => {
+      const bus = memoryBus();
+      const calls: string[] = [];
+      const make = (name: string) =>
+        KeyvCacheProxy({
+          store: new Map(), // per-process store
+          l1: true,
+          bus,
+          policies: { "repos.*": { tags: ["repos"] } },
+        })({
+          repos: {
+            get: (id: number) => {
+              calls.push(`${name}:${id}`);
+              return { id };
+            },
+          },
+        });
+      return { worker1: make("w1"), worker2: make("w2"), calls };
+    };
+
+    test("should evict peers' copies on key invalidation", async () => {
+      const { worker1, worker2, calls } = makeWorkers();
+      await worker1.repos.get(1);
+      await worker2.repos.get(1);
+
+      await KeyvCacheProxy.control(worker1).invalidate("repos.get", 1);
+      await worker1.repos.get(1);
+      await worker2.repos.get(1);
+      expect(calls).toEqual(["w1:1", "w2:1", "w1:1", "w2:1"]);
+    });
+
+    test("should drop peers' older copies of a value set in place", async () => {
+      const { worker1, worker2, calls } = makeWorkers();
+      await worker2.repos.get(1);
+      // entries written in the same millisecond as the set count as the set value
+      await new Promise((resolve) => setTimeout(resolve, 5));
+
+      await KeyvCacheProxy.control(worker1).set("repos.get", [1], { id: 1, seeded: true });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      await worker2.repos.get(1);
+      expect(calls).toEqual(["w2:1", "w2:1"]);
+    });
+
+    test("should keep a value set in place in a shared store", async () => {
+      const bus = memoryBus();
+      const store = new Keyv();
+      let calls = 0;
+      const api = { get: (id: number) => ({ id, calls: ++calls }) };
+      const worker1 = KeyvCacheProxy({ store, l1: true, bus })(api);
+      const worker2 = KeyvCacheProxy({ store, l1: true, bus })(api);
+      await worker2.get(1);
+
+      await KeyvCacheProxy.control(worker1).set("get", [1], { id: 1, seeded: true });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect<unknown>(await worker2.get(1)).toEqual({ id: 1, seeded: true });
+      expect(calls).toBe(1);
+    });
+
+    test("should replay prefix and tag invalidations on peers", async () => {
+      const { worker1, worker2, calls } = makeWorkers();
+      await worker2.repos.get(1);
+      await KeyvCacheProxy.control(worker1).invalidatePrefix("repos");
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      await worker2.repos.get(1);
+
+      await KeyvCacheProxy.control(worker1).invalidateTag("repos");
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      await worker2.repos.get(1);
+      expect(calls).toEqual(["w2:1", "w2:1", "w2:1"]);
+    });
+
+    test("should stop replaying after close", async () => {
+      const { worker1, worker2, calls } = makeWorkers();
+      await worker2.repos.get(1);
+      KeyvCacheProxy.control(worker2).close();
+
+      await KeyvCacheProxy.control(worker1).invalidate("repos.get", 1);
+      await worker2.repos.get(1);
+      expect(calls).toEqual(["w2:1"]);
+    });
+  });
+
+  describe("Cassette", () => {
+    test("should replay recorded calls for cached and uncached methods", async () => {
+      const dir = await mkdtemp(join(tmpdir(), "cassette-"));
+      const file = join(dir, "github.json");
+      const api = {
+        repos: { get: (id: number) => ({ id, live: true }) },
+        issues: { create: (title: string) => ({ title, live: true }) },
+      };
+      const options = { policies: { "issues.create": false } };
+
+      const recording = KeyvCacheProxy({
+        ...options,
+        store: new Keyv(),
+        cassette: { file, mode: "record" },
+      })(api);
+      await recording.repos.get(1);
+      await recording.issues.create("bug");
+
+      const offline = {
+        repos: {
+          get: (_id: number): { id: number; live: boolean } => {
+            throw new Error("network");
+          },
+        },
+        issues: {
+          create: (_title: string): { title: string; live: boolean } => {
+            throw new Error("network");
+          },
+        },
+      };
+      const replaying = KeyvCacheProxy({
+        ...options,
+        store: new Keyv(),
+        cassette: { file, mode: "replay" },
+      })(offline);
+      expect(await replaying.repos.get(1)).toEqual({ id: 1, live: true });
+      expect(await replaying.issues.create("bug")).toEqual({ title: "bug", live: true });
+      await expect(replaying.repos.get(2)).rejects.toThrow("no recording for repos.get(2)");
+
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    test("should record responses and iterables in their stored form", async () => {
+      const dir = await mkdtemp(join(tmpdir(), "cassette-"));
+      const file = join(dir, "calls.json");
+      const live = {
+        fetch: async () => new Response("hello", { status: 201, headers: { etag: '"1"' } }),
+        *pages() {
+          yield 1;
+          yield 2;
+        },
+      };
+      const recording = KeyvCacheProxy({ store: new Keyv(), cassette: { file, mode: "record" } })(
+        live,
+      );
+      expect(await (await recording.fetch()).text()).toBe("hello");
+      expect([...(await recording.pages())]).toEqual([1, 2]);
+      const fixture = JSON.parse(await readFile(file, "utf8"));
+      expect(fixture.entries["pages()"]).toMatchObject({ result: [1, 2], iterable: "sync" });
+      expect(fixture.entries["fetch()"]).toMatchObject({ codec: "response" });
+
+      const offline = {
+        fetch: async (): Promise<Response> => {
+          throw new Error("network");
+        },
+        pages: (): Generator<number> => {
+          throw new Error("network");
+        },
+      };
+      const replaying = KeyvCacheProxy({ store: new Keyv(), cassette: { file, mode: "replay" } })(
+        offline,
+      );
+      const response = await replaying.fetch();
+      expect(response.status).toBe(201);
+      expect(response.headers.get("etag")).toBe('"1"');
+      expect(await response.text()).toBe("hello");
+      expect([...(await replaying.pages())]).toEqual([1, 2]);
+
+      await rm(dir, { recursive: true, force: true });
+    });
+  });
+
+  describe("Modes", () => {
+    test("should refetch and overwrite the entry in refresh mode", async () => {
+      let calls = 0;
+      const api = { repos: { get: (id: number) => ({ id, calls: ++calls }) } };
+      const cached = KeyvCacheProxy({ store: new Keyv() })(api);
+
+      expect(await cached.repos.get(1)).toEqual({ id: 1, calls: 1 });
+      expect(await withMode(cached, "refresh").repos.get(1)).toEqual({ id: 1, calls: 2 });
+      expect(await cached.repos.get(1)).toEqual({ id: 1, calls: 2 });
+    });
+
+    test("should serve hits and throw on misses in cache-only mode", async () => {
+      let calls = 0;
+      const api = { repos: { get: (id: number) => ({ id, calls: ++calls }) } };
+      const cached = KeyvCacheProxy({ store: new Keyv() })(api);
+      await cached.repos.get(1);
+
+      const offline = withMode(cached.repos, "cache-only");
+      expect(await offline.get(1)).toEqual({ id: 1, calls: 1 });
+      await expect(offline.get(2)).rejects.toThrow(
+        "cache miss for repos.get(2) in cache-only mode",
+      );
+      expect(calls).toBe(1);
+    });
+
+    test("should neither read nor write in bypass mode", async () => {
+      let calls = 0;
+      const store = new Keyv();
+      const api = { get: (id: number) => ({ id, calls: ++calls }) };
+      const cached = KeyvCacheProxy({ store })(api);
+      await cached.get(1);
+
+      expect(await withMode(cached, "bypass").get(1)).toEqual({ id: 1, calls: 2 });
+      expect(await withMode(cached, "bypass").get(2)).toEqual({ id: 2, calls: 3 });
+      expect(await store.get("get(2)")).toBeUndefined();
+    });
+
+    test("should let withMode override policies, and policies override the option", async () => {
+      let calls = 0;
+      const api = { a: () => ++calls, b: () => ++calls };
+      const cached = KeyvCacheProxy({
+        store: new Keyv(),
+        mode: "bypass",
+        policies: { a: { mode: "default" } },
+      })(api);
+
+      expect(await cached.a()).toBe(1);
+      expect(await cached.a()).toBe(1);
+      expect(await cached.b()).toBe(2);
+      expect(await cached.b()).toBe(3);
+      expect(await withMode(cached, "refresh").a()).toBe(4);
+      expect(await cached.a()).toBe(4);
+    });
+
+    test("should refuse uncached methods in cache-only mode", async () => {
+      const api = { create: () => "created" };
+      const cached = KeyvCacheProxy({ store: new Keyv(), policies: { create: false } })(api);
+
+      await expect(withMode(cached, "cache-only").create()).rejects.toThrow(
+        "create is never cached",
+      );
+      expect(() => withMode(api, "refresh")).toThrow("not a KeyvCacheProxy");
+    });
+  });
+
+  describe("Negative Caching", () => {
+    const notFound = (id: number) =>
+      Object.assign(new Error(`repo ${id} not found`), { name: "HttpError", status: 404 });
+
+    test("should cache matching errors and rethrow them on a hit", async () => {
+      let calls = 0;
+      const api = {
+        get: (id: number): number => {
+          calls++;
+          throw notFound(id);
+        },
+      };
+      const cached = KeyvCacheProxy({
+        store: new Keyv(),
+        cacheErrors: { when: (error) => error.status === 404, ttl: 1000 },
+      })(api);
+
+      await expect(cached.get(1)).rejects.toThrow("repo 1 not found");
+      const error = await cached.get(1).catch((e) => e);
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe("HttpError");
+      expect(error.status).toBe(404);
+      expect(calls).toBe(1);
+      expect(await KeyvCacheProxy.control(cached).peek("get", 1)).toBeUndefined();
+    });
+
+    test("should not cache errors rejected by the predicate", async () => {
+      let calls = 0;
+      const api = {
+        get: (): number => {
+          calls++;
+          throw Object.assign(new Error("unavailable"), { status: 503 });
+        },
+      };
+      const cached = KeyvCacheProxy({
+        store: new Keyv(),
+        cacheErrors: { when: (error) => error.status === 404 },
+      })(api);
+
+      await expect(cached.get()).rejects.toThrow("unavailable");
+      await expect(cached.get()).rejects.toThrow("unavailable");
+      expect(calls).toBe(2);
+    });
+
+    test("should expire cached errors after their own ttl", async () => {
+      let calls = 0;
+      const api = {
+        get: (id: number) => {
+          if (++calls === 1) throw notFound(id);
+          return id;
+        },
+      };
+      const cached = KeyvCacheProxy({
+        store: new Keyv(),
+        ttl: 10000,
+        cacheErrors: { when: () => true, ttl: 50 },
+      })(api);
+
+      await expect(cached.get(1)).rejects.toThrow("not found");
+      await expect(cached.get(1)).rejects.toThrow("not found");
+      await new Promise((resolve) => setTimeout(resolve, 60));
+      expect(await cached.get(1)).toBe(1);
+      expect(await cached.get(1)).toBe(1);
+      expect(calls).toBe(2);
+    });
+
+    test("should keep a stale value that staleIfError can serve", async () => {
+      let calls = 0;
+      const api = {
+        get: (id: number) => {
+          if (++calls > 1) throw notFound(id);
+          return id;
+        },
+      };
+      const cached = KeyvCacheProxy({
+        store: new Keyv(),
+        ttl: 20,
+        staleIfError: 10000,
+        cacheErrors: { when: () => true },
+      })(api);
+
+      expect(await cached.get(1)).toBe(1);
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      expect(await cached.get(1)).toBe(1);
+      expect(await cached.get(1)).toBe(1);
+    });
+  });
+
+  describe("Iterables", () => {
+    test("should cache async iterable pages and replay them with a fresh iterator", async () => {
+      let calls = 0;
+      const api = {
+        iterator: (repo: string) => {
+          calls++;
+          return (async function* () {
+            yield { data: [`${repo}#1`] };
+            yield { data: [`${repo}#2`] };
+          })();
+        },
+      };
+      const cached = KeyvCacheProxy({ store: new Keyv() })(api);
+      const collect = async (pages: AsyncIterable<{ data: string[] }>) => {
+        const data: string[] = [];
+        for await (const page of pages) data.push(...page.data);
+        return data;
+      };
+
+      expect(await collect(await cached.iterator("a"))).toEqual(["a#1", "a#2"]);
+      expect(await collect(await cached.iterator("a"))).toEqual(["a#1", "a#2"]);
+      expect(await collect(await cached.iterator("a"))).toEqual(["a#1", "a#2"]);
+      expect(calls).toBe(1);
+    });
+
+    test("should replay generator results as sync iterators", async () => {
+      const store = new Keyv();
+      const api = {
+        *range(n: number) {
+          for (let i = 0; i < n; i++) yield i;
+        },
+      };
+      const cached = KeyvCacheProxy({ store })(api);
+
+      expect([...(await cached.range(3))]).toEqual([0, 1, 2]);
+      const replayed = await cached.range(3);
+      expect(typeof replayed.next).toBe("function");
+      expect([...replayed]).toEqual([0, 1, 2]);
+      expect((await store.get("range(3)")).v).toEqual([0, 1, 2]);
+    });
+
+    test("should pass sequences longer than maxIterableItems through uncached", async () => {
+      let calls = 0;
+      const store = new Keyv();
+      const api = {
+        *range(n: number) {
+          calls++;
+          for (let i = 0; i < n; i++) yield i;
+        },
+      };
+      const cached = KeyvCacheProxy({ store, maxIterableItems: 2 })(api);
+
+      expect([...(await cached.range(5))]).toEqual([0, 1, 2, 3, 4]);
+      expect([...(await cached.range(5))]).toEqual([0, 1, 2, 3, 4]);
+      expect(calls).toBe(2);
+      expect(await store.get("range(5)")).toBeUndefined();
+
+      expect([...(await cached.range(2))]).toEqual([0, 1]);
+      expect([...(await cached.range(2))]).toEqual([0, 1]);
+      expect(calls).toBe(3);
+    });
+
+    test("should give concurrent callers their own iterator", async () => {
+      const api = {
+        async *pages() {
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          yield* [1, 2];
+        },
+      };
+      const cached = KeyvCacheProxy({ store: new Keyv() })(api);
+      const [a, b] = await Promise.all([cached.pages(), cached.pages()]);
+      const collect = async (pages: AsyncIterable<number>) => {
+        const items: number[] = [];
+        for await (const item of pages) items.push(item);
+        return items;
+      };
+
+      expect(a).not.toBe(b);
+      expect(await collect(a)).toEqual([1, 2]);
+      expect(await collect(b)).toEqual([1, 2]);
+    });
+
+    test("should give concurrent callers their own iterator past maxIterableItems", async () => {
+      let calls = 0;
+      const api = {
+        async *pages() {
+          calls++;
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          yield* [0, 1, 2, 3, 4];
+        },
+      };
+      const cached = KeyvCacheProxy({ store: new Keyv(), maxIterableItems: 2 })(api);
+      const [a, b] = await Promise.all([cached.pages(), cached.pages()]);
+      const collect = async (pages: AsyncIterable<number>) => {
+        const items: number[] = [];
+        for await (const item of pages) items.push(item);
+        return items;
+      };
+
+      expect(a).not.toBe(b);
+      expect(await collect(a)).toEqual([0, 1, 2, 3, 4]);
+      expect(await collect(b)).toEqual([0, 1, 2, 3, 4]);
+      expect(calls).toBe(2);
+    });
+  });
+
+  describe("Responses and Binary", () => {
+    test("should cache a Response and rebuild a readable one on every call", async () => {
+      let calls = 0;
+      const store = new Keyv();
+      const api = {
+        fetch: async (url: string) => {
+          calls++;
+          return new Response(JSON.stringify({ url }), {
+            status: 200,
+            headers: { "content-type": "application/json" },
+          });
+        },
+      };
+      const cached = KeyvCacheProxy({ store })(api);
+
+      const first = await cached.fetch("/a");
+      expect(await first.json()).toEqual({ url: "/a" });
+      const second = await cached.fetch("/a");
+      expect(second).not.toBe(first);
+      expect(second.headers.get("content-type")).toBe("application/json");
+      expect(await second.json()).toEqual({ url: "/a" });
+      expect(calls).toBe(1);
+      expect((await store.get('fetch("/a")')).codec).toBe("response");
+    });
+
+    test("should let onFetched inspect a response without consuming it", async () => {
+      let calls = 0;
+      const api = {
+        fetch: async () => new Response(`call ${++calls}`, { status: calls === 1 ? 500 : 200 }),
+      };
+      const cached = KeyvCacheProxy({
+        store: new Keyv(),
+        onFetched: (_key, response: Response) => (response.ok ? undefined : { skip: true }),
+      })(api);
+
+      const failed = await cached.fetch();
+      expect(failed.status).toBe(500);
+      expect(await failed.text()).toBe("call 1");
+      expect(await (await cached.fetch()).text()).toBe("call 2");
+      expect(await (await cached.fetch()).text()).toBe("call 2");
+    });
+
+    test("should cache binary payloads", async () => {
+      const api = {
+        bytes: () => new Uint8Array([1, 2, 3]),
+        buffer: () => new Uint8Array([4, 5]).buffer,
+        blob: () => new Blob(["png"], { type: "image/png" }),
+      };
+      const cached = KeyvCacheProxy({ store: new Keyv() })(api);
+      await cached.bytes();
+      await cached.buffer();
+      await cached.blob();
+
+      expect(await cached.bytes()).toEqual(new Uint8Array([1, 2, 3]));
+      expect(new Uint8Array(await cached.buffer())).toEqual(new Uint8Array([4, 5]));
+      const blob = await cached.blob();
+      expect(blob.type).toBe("image/png");
+      expect(await blob.text()).toBe("png");
+    });
+  });
+
+  describe("Functions", () => {
+    test("should cache direct calls of a wrapped function under its name", async () => {
+      let calls = 0;
+      const store = new Keyv();
+      const fetchUser = async (id: number) => ({ id, calls: ++calls });
+      const cached = KeyvCacheProxy({ store })(fetchUser);
+
+      expect(await cached(1)).toEqual({ id: 1, calls: 1 });
+      expect(await cached(1)).toEqual({ id: 1, calls: 1 });
+      expect(await store.get("fetchUser(1)")).toBeDefined();
+
+      const named = KeyvCacheProxy({ store })(fetchUser.bind(null), "users.get");
+      expect(await named(2)).toEqual({ id: 2, calls: 2 });
+      expect(await store.get("users.get(2)")).toBeDefined();
+      expect(await KeyvCacheProxy({ store })(fetchUser.bind(null))(1)).toEqual({ id: 1, calls: 1 });
+    });
+
+    test("should keep the properties of callable objects proxied", async () => {
+      let calls = 0;
+      let defaultsCalls = 0;
+      const query = async (query: string) => ({ query, calls: ++calls });
+      const graphql = Object.assign(query, {
+        // like Octokit's, returns a new function
+        defaults: (headers: Record<string, string>) => {
+          defaultsCalls++;
+          return async (q: string) => ({ ...(await query(q)), headers });
+        },
+        endpoint: { url: "https://api.github.com/graphql" },
+      });
+      const octokit = { graphql };
+      const store = new Keyv();
+      const cached = KeyvCacheProxy({ store })(octokit);
+
+      expect(await cached.graphql("{ viewer }")).toEqual({ query: "{ viewer }", calls: 1 });
+      expect(await cached.graphql("{ viewer }")).toEqual({ query: "{ viewer }", calls: 1 });
+      // function results pass through uncached
+      const withHeaders = await cached.graphql.defaults({ a: "b" });
+      expect(await withHeaders("{ repo }")).toEqual({
+        query: "{ repo }",
+        calls: 2,
+        headers: { a: "b" },
+      });
+      expect(typeof (await cached.graphql.defaults({ a: "b" }))).toBe("function");
+      expect(defaultsCalls).toBe(2);
+      expect(await store.get('graphql.defaults({"a":"b"})')).toBeUndefined();
+      expect(cached.graphql.endpoint.url).toBe("https://api.github.com/graphql");
+      expect(await KeyvCacheProxy.control(cached.graphql).peek("", "{ viewer }")).toEqual({
+        query: "{ viewer }",
+        calls: 1,
+      });
+    });
+
+    test("should cache call, apply and bind under the function's own path", async () => {
+      const store = new Keyv();
+      let calls = 0;
+      const api = { get: async (id: number) => ({ id, calls: ++calls }) };
+      const cached = KeyvCacheProxy({ store })(api);
+
+      expect(await cached.get.call(cached, 1)).toEqual({ id: 1, calls: 1 });
+      expect(await cached.get.apply(cached, [1])).toEqual({ id: 1, calls: 1 });
+      const bound = cached.get.bind(cached);
+      expect(typeof bound).toBe("function");
+      expect(await bound(1)).toEqual({ id: 1, calls: 1 });
+      expect([...(store.store as Map<string, unknown>).keys()]).toEqual(["keyv:get(1)"]);
+    });
+
+    test("should call methods with the wrapped object as this", async () => {
+      class Client {
+        base = "https://example.com";
+        url(path: string) {
+          return this.base + path;
+        }
+      }
+      const cached = KeyvCacheProxy({ store: new Keyv() })({ client: new Client(), Client });
+
+      expect(await cached.client.url("/a")).toBe("https://example.com/a");
+      expect<unknown>(cached.Client.prototype).toBe(Client.prototype);
+    });
+  });
+
+  describe("HTTP Semantics", () => {
+    type Params = { repo: string; headers?: Record<string, string> };
+    const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+    test("should take the TTL from cache-control and skip no-store responses", async () => {
+      const store = new Keyv();
+      const api = {
+        get: ({ repo }: Params) => ({
+          status: 200,
+          headers: { "cache-control": repo === "secret" ? "no-store" : "max-age=60" },
+          data: { repo },
+        }),
+      };
+      const cached = KeyvCacheProxy({ store, ttl: 1000, http: true })(api);
+      const before = Date.now();
+      await cached.get({ repo: "a" });
+      await cached.get({ repo: "secret" });
+
+      const entry = await store.get('get({"repo":"a"})');
+      expect(entry.expiresAt - before).toBeGreaterThanOrEqual(60000);
+      expect(await store.get('get({"repo":"secret"})')).toBeUndefined();
+    });
+
+    test("should revalidate expired entries and refresh them on a thrown 304", async () => {
+      const requests: Params[] = [];
+      const api = {
+        get: (params: Params) => {
+          requests.push(params);
+          if (params.headers?.["if-none-match"] === '"v1"') {
+            // Octokit throws on 304
+            throw Object.assign(new Error("Not Modified"), { status: 304 });
+          }
+          return { status: 200, headers: { etag: '"v1"' }, data: { n: requests.length } };
+        },
+      };
+      const cached = KeyvCacheProxy({ store: new Keyv(), ttl: 20, http: true })(api);
+
+      expect((await cached.get({ repo: "a" })).data).toEqual({ n: 1 });
+      await sleep(30);
+      expect((await cached.get({ repo: "a" })).data).toEqual({ n: 1 });
+      expect(requests[1]?.headers).toEqual({ "if-none-match": '"v1"' });
+      // the 304 renewed the entry
+      expect((await cached.get({ repo: "a" })).data).toEqual({ n: 1 });
+      expect(requests).toHaveLength(2);
+      expect(KeyvCacheProxy.control(cached).getStats().get?.upstreamErrors).toBe(0);
+    });
+
+    test("should replace the entry when revalidation returns a new version", async () => {
+      let version = 1;
+      const api = {
+        get: (_params: Params) => ({
+          status: 200,
+          headers: { etag: `"v${version}"`, "cache-control": "max-age=0" },
+          data: { version },
+        }),
+      };
+      const cached = KeyvCacheProxy({ store: new Keyv(), http: true })(api);
+
+      expect((await cached.get({ repo: "a" })).data).toEqual({ version: 1 });
+      version = 2;
+      expect((await cached.get({ repo: "a" })).data).toEqual({ version: 2 });
+    });
+
+    test("should revalidate fetch responses with a custom conditional builder", async () => {
+      let calls = 0;
+      const api = {
+        fetch: async (_url: string, init?: RequestInit) => {
+          calls++;
+          const headers = new Headers(init?.headers);
+          if (headers.get("if-none-match") === '"x"') return new Response(null, { status: 304 });
+          return new Response("body", { headers: { etag: '"x"', "cache-control": "max-age=0" } });
+        },
+      };
+      const cached = KeyvCacheProxy({
+        store: new Keyv(),
+        http: {
+          conditional: ([url, init], { etag = "" }) => [
+            url,
+            { ...init, headers: { ...init?.headers, "if-none-match": etag } },
+          ],
+        },
+      })(api);
+
+      expect(await (await cached.fetch("/a")).text()).toBe("body");
+      const revalidated = await cached.fetch("/a");
+      expect(revalidated.status).toBe(200);
+      expect(await revalidated.text()).toBe("body");
+      expect(calls).toBe(2);
+    });
+  });
+
+  describe("Refresh-Ahead", () => {
+    const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+    test("should refetch hot keys before they expire, with the recorded args", async () => {
+      const calls: number[] = [];
+      const api = { get: (id: number) => ({ id, call: calls.push(id) }) };
+      const cached = KeyvCacheProxy({
+        store: new Keyv(),
+        ttl: 60,
+        refreshAhead: { threshold: 1, window: 0.5, interval: 5 },
+      })(api);
+
+      expect(await cached.get(7)).toEqual({ id: 7, call: 1 });
+      expect(await cached.get(7)).toEqual({ id: 7, call: 1 }); // hot now
+      await sleep(45);
+      expect(calls).toEqual([7, 7]);
+      // refreshed before expiry, so this read is still a hit
+      expect(await cached.get(7)).toEqual({ id: 7, call: 2 });
+      await KeyvCacheProxy.control(cached).stop();
+    });
+
+    test("should leave keys without enough hits to expire", async () => {
+      let calls = 0;
+      const api = { get: () => ++calls };
+      const cached = KeyvCacheProxy({
+        store: new Keyv(),
+        ttl: 30,
+        refreshAhead: { threshold: 2, interval: 5 },
+      })(api);
+
+      await cached.get();
+      await cached.get();
+      await sleep(40);
+      expect(calls).toBe(1);
+      await KeyvCacheProxy.control(cached).stop();
+    });
+
+    test("should refresh early with probabilistic early expiration", async () => {
+      let calls = 0;
+      const api = {
+        get: async () => {
+          await sleep(5);
+          return ++calls;
+        },
+      };
+      const store = new Keyv();
+      const cached = KeyvCacheProxy({ store, ttl: 1000, earlyExpiration: 1e6 })(api);
+
+      expect(await cached.get()).toBe(1);
+      expect((await store.get("get()")).fetchMs).toBeGreaterThan(0);
+      // a huge beta makes every hit refresh early, while still serving the cached value
+      expect(await cached.get()).toBe(1);
+      await sleep(20);
+      expect(calls).toBe(2);
+      expect(await cached.get()).toBe(2);
+    });
+  });
+
+  describe("Limits", () => {
+    const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+    test("should throttle misses but never hits", async () => {
+      let active = 0;
+      let peak = 0;
+      const api = {
+        get: async (id: number) => {
+          peak = Math.max(peak, ++active);
+          await sleep(5);
+          active--;
+          return id;
+        },
+      };
+      const cached = KeyvCacheProxy({ store: new Keyv(), limit: { maxConcurrent: 2 } })(api);
+
+      expect(await Promise.all([1, 2, 3, 4, 5].map((id) => cached.get(id)))).toEqual([
+        1, 2, 3, 4, 5,
+      ]);
+      expect(peak).toBe(2);
+      peak = 0;
+      await Promise.all([1, 2, 3, 4, 5].map((id) => cached.get(id)));
+      expect(peak).toBe(0);
+    });
+
+    test("should apply per-method limits and priorities from policies", async () => {
+      const order: string[] = [];
+      const api = {
+        list: async (page: number) => {
+          order.push(`list ${page}`);
+          await sleep(2);
+        },
+        get: async (id: number) => {
+          order.push(`get ${id}`);
+          await sleep(2);
+        },
+      };
+      const cached = KeyvCacheProxy({
+        store: new Keyv(),
+        limit: { maxConcurrent: 1 },
+        policies: { list: { limit: { maxConcurrent: 1 }, priority: -1 } },
+      })(api);
+
+      const first = cached.get(0); // holds the global slot while the others queue
+      await sleep(1);
+      await Promise.all([first, cached.list(1), cached.list(2), cached.get(1), cached.get(2)]);
+      expect(order).toEqual(["get 0", "get 1", "get 2", "list 1", "list 2"]);
+    });
+
+    test("should adjust the budget from response headers", async () => {
+      const api = {
+        get: (id: number) => ({
+          status: 200,
+          headers: {
+            "x-ratelimit-remaining": "0",
+            "x-ratelimit-reset": String((Date.now() + 30) / 1000),
+          },
+          data: id,
+        }),
+      };
+      const cached = KeyvCacheProxy({
+        store: new Keyv(),
+        limit: {},
+        budget: rateLimitHeaders,
+      })(api);
+
+      await cached.get(1);
+      const start = Date.now();
+      await cached.get(2);
+      expect(Date.now() - start).toBeGreaterThanOrEqual(20);
+      await cached.get(1); // hits don't wait
+    });
+  });
+
+  describe("Store Resilience", () => {
+    const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+    // a Keyv whose backend is down
+    const brokenStore = () => {
+      const store = new Keyv();
+      let ops = 0;
+      store.get = (async () => {
+        ops++;
+        throw new Error("ECONNREFUSED");
+      }) as typeof store.get;
+      store.set = (async () => {
+        ops++;
+        throw new Error("ECONNREFUSED");
+      }) as typeof store.set;
+      return { store, ops: () => ops };
+    };
+
+    test("should fail open and report store errors", async () => {
+      const { store } = brokenStore();
+      const errors: string[] = [];
+      const api = { get: (id: number) => id };
+      const cached = KeyvCacheProxy({
+        store,
+        failOpen: true,
+        onStoreError: (error, { key, op }) =>
+          errors.push(`${op} ${key}: ${(error as Error).message}`),
+      })(api);
+
+      expect(await cached.get(1)).toBe(1);
+      expect(errors).toEqual(["read get(1): ECONNREFUSED", "write get(1): ECONNREFUSED"]);
+      expect(KeyvCacheProxy.control(cached).getStats().get?.storeErrors).toBe(2);
+    });
+
+    test("should still reject on store errors without failOpen", async () => {
+      const { store } = brokenStore();
+      const cached = KeyvCacheProxy({ store })({ get: (id: number) => id });
+
+      await expect(cached.get(1)).rejects.toThrow("ECONNREFUSED");
+    });
+
+    test("should time out slow store operations", async () => {
+      const store = new Keyv();
+      store.get = (() => new Promise(() => {})) as typeof store.get;
+      const cached = KeyvCacheProxy({ store, storeTimeout: 10, failOpen: true })({
+        get: (id: number) => id,
+      });
+
+      const start = Date.now();
+      expect(await cached.get(1)).toBe(1);
+      expect(Date.now() - start).toBeLessThan(100);
+      await expect(
+        KeyvCacheProxy({ store, storeTimeout: 10 })({ get: (id: number) => id }).get(1),
+      ).rejects.toThrow("store read timed out after 10ms");
+    });
+
+    test("should skip the store while the circuit is open", async () => {
+      const { store, ops } = brokenStore();
+      const cached = KeyvCacheProxy({
+        store,
+        failOpen: true,
+        circuitBreaker: { threshold: 2, coolDown: 20 },
+      })({ get: (id: number) => id });
+
+      await cached.get(1); // read and write fail, the circuit opens
+      expect(ops()).toBe(2);
+      expect(await cached.get(2)).toBe(2);
+      expect(ops()).toBe(2);
+      await sleep(30);
+      await cached.get(3); // one trial read
+      expect(ops()).toBe(3);
+    });
+
+    test("should not wait for writes with backgroundWrites", async () => {
+      const store = new Keyv();
+      let release = () => {};
+      const set = store.set.bind(store);
+      store.set = (async (...args: Parameters<typeof store.set>) => {
+        await new Promise<void>((resolve) => {
+          release = resolve;
+        });
+        return set(...args);
+      }) as typeof store.set;
+      const cached = KeyvCacheProxy({ store, backgroundWrites: true })({ get: (id: number) => id });
+
+      expect(await cached.get(1)).toBe(1);
+      expect(await store.get("get(1)")).toBeUndefined();
+      release();
+      await sleep(1);
+      expect((await store.get("get(1)")).v).toBe(1);
+    });
+  });
+
+  describe("Distributed Lock", () => {
+    test("should let one process fetch while others wait for its value", async () => {
+      const store = new Keyv();
+      let calls = 0;
+      const api = {
+        get: async (id: number) => {
+          calls++;
+          await new Promise((resolve) => setTimeout(resolve, 30));
+          return { id };
+        },
+      };
+      // separate proxies stand for separate processes sharing the store
+      const instances = Array.from({ length: 5 }, () =>
+        KeyvCacheProxy({ store, lock: { interval: 5 } })(api),
+      );
+
+      const results = await Promise.all(instances.map((cached) => cached.get(1)));
+      expect(results).toEqual(Array(5).fill({ id: 1 }));
+      expect(calls).toBe(1);
+      expect(await store.get("__lock__:get(1)")).toBeUndefined();
+    });
+
+    test("should fetch itself once the wait runs out", async () => {
+      const store = new Keyv();
+      await store.set("__lock__:get(1)", { token: "stuck", expiresAt: Date.now() + 60000 });
+      let calls = 0;
+      const cached = KeyvCacheProxy({ store, lock: { wait: 20, interval: 5 } })({
+        get: (id: number) => ({ id, calls: ++calls }),
+      });
+
+      expect(await cached.get(1)).toEqual({ id: 1, calls: 1 });
+    });
+
+    test("should apply storeTimeout and failOpen to lock operations", async () => {
+      const store = new Keyv();
+      let ops = 0;
+      const hang = () => {
+        ops++;
+        return new Promise<never>(() => {});
+      };
+      store.get = hang as typeof store.get;
+      store.set = hang as typeof store.set;
+      store.delete = hang as typeof store.delete;
+      const errors: string[] = [];
+      const cached = KeyvCacheProxy({
+        store,
+        storeTimeout: 20,
+        failOpen: true,
+        lock: true,
+        circuitBreaker: { threshold: 2 },
+        onStoreError: (_error, { key, op }) => errors.push(`${op} ${key}`),
+      })({ get: (id: number) => id });
+
+      expect(await cached.get(1)).toBe(1);
+      expect(errors).toEqual(["read get(1)", "read __lock__:get(1)"]);
+      // the circuit is open: neither the entry nor the lock touch the store
+      const before = ops;
+      expect(await cached.get(1)).toBe(1);
+      expect(ops).toBe(before);
+    });
+  });
+
+  describe("Key Arguments", () => {
+    test("should derive keys from transformed arguments and call with the originals", async () => {
+      const store = new Keyv();
+      const received: unknown[] = [];
+      const api = {
+        get: (params: { id: number; request_id: string; headers: Record<string, string> }) => {
+          received.push(params);
+          return params.id;
+        },
+      };
+      const cached = KeyvCacheProxy({
+        store,
+        policies: { get: { keyArgs: { omit: ["request_id", "headers"] } } },
+      })(api);
+
+      await cached.get({ id: 1, request_id: "a", headers: { authorization: "t1" } });
+      await cached.get({ id: 1, request_id: "b", headers: { authorization: "t2" } });
+      expect(received).toEqual([{ id: 1, request_id: "a", headers: { authorization: "t1" } }]);
+      expect(await store.get('get({"id":1})')).toBeDefined();
+      expect(await KeyvCacheProxy.control(cached).peek("get", { id: 1, request_id: "c" })).toBe(1);
+    });
+
+    test("should hash secrets in keys and cassette fixtures", async () => {
+      const dir = await mkdtemp(join(tmpdir(), "redact-"));
+      const file = join(dir, "calls.json");
+      const store = new Keyv();
+      const cached = KeyvCacheProxy({
+        store,
+        redact: ["authorization"],
+        cassette: { file, mode: "record" },
+      })({ get: (params: { id: number; headers: { authorization: string } }) => params.id });
+
+      await cached.get({ id: 1, headers: { authorization: "token secret" } });
+      const keys = [...(store.store as Map<string, unknown>).keys()].join("\n");
+      expect(keys).not.toContain("secret");
+      expect(keys).toContain('"authorization":"#');
+      expect(await readFile(file, "utf8")).not.toContain("secret");
+
+      await rm(dir, { recursive: true, force: true });
+    });
+  });
+
+  describe("Clone", () => {
+    test("should keep a Map store unaffected by callers mutating results", async () => {
+      let calls = 0;
+      const cached = KeyvCacheProxy({ store: new Map() })({
+        list: () => {
+          calls++;
+          return { data: { items: [1] } };
+        },
+      });
+
+      (await cached.list()).data.items.push(2);
+      (await cached.list()).data.items.push(3);
+      expect(await cached.list()).toEqual({ data: { items: [1] } });
+      expect(calls).toBe(1);
+    });
+
+    test("should freeze cached values when asked to", async () => {
+      const cached = KeyvCacheProxy({ store: new Map(), clone: "freeze" })({
+        list: () => ({ data: { items: [1] } }),
+      });
+
+      const first = await cached.list();
+      expect(() => first.data.items.push(2)).toThrow();
+      expect(await cached.list()).toBe(first);
+    });
+
+    test("should apply per-direction strategies", async () => {
+      const copied: string[] = [];
+      const cached = KeyvCacheProxy({
+        store: new Map(),
+        clone: {
+          write: false,
+          read: (value) => {
+            copied.push("read");
+            return { ...value };
+          },
+        },
+      })({ get: () => ({ id: 1 }) });
+
+      await cached.get();
+      await cached.get();
+      expect(copied).toEqual(["read", "read"]);
+    });
+
+    test("should not copy by default when the store serializes", async () => {
+      const value = { id: 1 };
+      const cached = KeyvCacheProxy({ store: new Keyv() })({ get: () => value });
+      expect(await cached.get()).toBe(value);
+    });
+  });
+
+  describe("Proxy Identity and this", () => {
+    test("should return the same proxy for the same property", () => {
+      const proxy = KeyvCacheProxy({ store });
+      const api = { repos: { get: (id: number) => id } };
+      const cached = proxy(api);
+
+      expect(cached.repos).toBe(cached.repos);
+      expect(cached.repos.get).toBe(cached.repos.get);
+      expect(proxy(api)).toBe(cached);
+      expect(withMode(cached, "refresh")).toBe(withMode(cached, "refresh"));
+      expect(withMode(cached, "refresh")).not.toBe(cached);
+    });
+
+    test("should run methods and getters on the instance, private fields included", async () => {
+      class Client {
+        #token = "secret";
+        calls = 0;
+        get auth() {
+          return `Bearer ${this.#token}`;
+        }
+        user(id: number) {
+          this.calls++;
+          return { id, auth: this.auth };
+        }
+        profile(id: number) {
+          return this.user(id);
+        }
+      }
+      const client = new Client();
+      const cached = KeyvCacheProxy({ store })(client);
+
+      expect(cached.auth).toBe("Bearer secret");
+      expect(await cached.profile(1)).toEqual({ id: 1, auth: "Bearer secret" });
+      const { user } = cached;
+      expect(await user(2)).toEqual({ id: 2, auth: "Bearer secret" });
+      expect(client.calls).toBe(2);
+    });
+
+    test("should run methods and getters on objects inheriting from the proxy", async () => {
+      const cached = KeyvCacheProxy({ store })({
+        name: "base",
+        get greeting() {
+          return `hi ${this.name}`;
+        },
+        hello() {
+          return this.name;
+        },
+      });
+      const child = Object.assign(Object.create(cached), { name: "child" }) as typeof cached;
+
+      expect(child.greeting).toBe("hi child");
+      expect(await child.hello()).toBe("child");
+    });
+
+    test("should run methods on the object given to call, apply and bind", async () => {
+      const store = new Keyv();
+      const cached = KeyvCacheProxy({ store })({
+        name: "base",
+        hello(greeting: string) {
+          return `${greeting} ${this.name}`;
+        },
+      });
+      const other = { name: "other" };
+
+      expect(await cached.hello.call(other, "hi")).toBe("hi other");
+      expect(await cached.hello.apply(other, ["hey"])).toBe("hey other");
+      expect(await cached.hello.bind(other)("yo")).toBe("yo other");
+      expect(await cached.hello.call(cached, "hello")).toBe("hello base");
+      expect(await store.get('hello("hi")')).toBeDefined();
+    });
+
+    test("should never be mistaken for a thenable", async () => {
+      let thenCalls = 0;
+      const cached = KeyvCacheProxy({ store })({
+        // biome-ignore lint/suspicious/noThenProperty: e.g. a query builder, whose `then` runs the query
+        then: () => thenCalls++,
+        get: () => 1,
+      });
+
+      expect((cached as { then?: unknown }).then).toBeUndefined();
+      expect(await Promise.resolve(cached)).toBe(cached);
+      expect(thenCalls).toBe(0);
+    });
+
+    test("should pass symbol properties through uncached", () => {
+      const cached = KeyvCacheProxy({ store })({
+        list: [1, 2],
+        *[Symbol.iterator]() {
+          yield "a";
+        },
+      });
+
+      expect([...cached.list]).toEqual([1, 2]);
+      expect([...cached]).toEqual(["a"]);
+    });
+  });
+
+  describe("TTL", () => {
+    test("should expire cache after TTL", async () => {
+      let callCount = 0;
+      const obj = {
+        getValue: () => {
+          callCount++;
+          return callCount;
+        },
+      };
+
+      const cached = KeyvCacheProxy({
+        store,
+        ttl: 100, // 100ms
+      })(obj);
+
+      const result1 = await cached.getValue();
+      expect(result1).toBe(1);
+
+      const result2 = await cached.getValue();
+      expect(result2).toBe(1); // Cached
+
+      // Wait for TTL to expire
+      await new Promise((resolve) => setTimeout(resolve, 150));
+
+      const result3 = await cached.getValue();
+      expect(result3).toBe(2); // Fresh call
+    });
+
+    test("should treat a TTL of 0 as no expiry, as Keyv does", async () => {
+      let callCount = 0;
+      const obj = { getValue: () => ++callCount, getOther: () => ++callCount };
+      const cached = KeyvCacheProxy({
+        store,
+        ttl: 0,
+        onFetched: (key) => (key.startsWith("getOther") ? { ttl: 0 } : undefined),
+      })(obj);
+
+      expect(await cached.getValue()).toBe(1);
+      expect(await cached.getValue()).toBe(1);
+      expect(await cached.getOther()).toBe(2);
+      expect(await cached.getOther()).toBe(2);
+      expect((await store.get("getValue()")).expiresAt).toBeUndefined();
+    });
+
+    test("should support custom TTL from onFetched", async () => {
+      let callCount = 0;
+      const obj = {
+        getValue: () => {
+          callCount++;
+          return callCount;
+        },
+      };
+
+      const cached = KeyvCacheProxy({
+        store,
+        ttl: 10000, // Default 10s
+        onFetched: (_key, value) => {
+          // Use custom TTL of 100ms
+          return { data: value, ttl: 100 };
+        },
+      })(obj);
+
+      const result1 = await cached.getValue();
+      expect(result1).toBe(1);
+
+      const result2 = await cached.getValue();
+      expect(result2).toBe(1); // Cached
+
+      // Wait for custom TTL to expire (100ms)
+      await new Promise((resolve) => setTimeout(resolve, 150));
+
+      const result3 = await cached.getValue();
+      expect(result3).toBe(2); // Fresh call due to custom TTL
+    });
+  });
+
+  describe("Single-flight", () => {
+    test("should share one upstream call between concurrent misses", async () => {
+      let callCount = 0;
+      const obj = {
+        getValue: async (x: number) => {
+          callCount++;
+          await new Promise((resolve) => setTimeout(resolve, 20));
+          return x * 2;
+        },
+      };
+
+      const cached = KeyvCacheProxy({ store })(obj);
+
+      const results = await Promise.all(Array.from({ length: 10 }, () => cached.getValue(5)));
+      expect(results).toEqual(Array(10).fill(10));
+      expect(callCount).toBe(1);
+    });
+
+    test("should propagate errors to every waiter and clear the pending entry", async () => {
+      let callCount = 0;
+      const obj = {
+        getValue: async () => {
+          callCount++;
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          if (callCount === 1) throw new Error("Upstream error");
+          return "ok";
+        },
+      };
+
+      const cached = KeyvCacheProxy({ store })(obj);
+
+      const settled = await Promise.allSettled([cached.getValue(), cached.getValue()]);
+      expect(settled.map((s) => s.status)).toEqual(["rejected", "rejected"]);
+      expect(callCount).toBe(1);
+
+      // the failed fetch is not shared with later calls
+      expect(await cached.getValue()).toBe("ok");
+      expect(callCount).toBe(2);
+    });
+
+    test("should call upstream for each concurrent miss when dedupe is disabled", async () => {
+      let callCount = 0;
+      const obj = {
+        getValue: async () => {
+          callCount++;
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          return "value";
+        },
+      };
+
+      const cached = KeyvCacheProxy({ store, dedupe: false })(obj);
+
+      await Promise.all([cached.getValue(), cached.getValue(), cached.getValue()]);
+      expect(callCount).toBe(3);
+    });
+  });
+
+  describe("Stale Windows", () => {
+    test("should serve stale value while revalidating in the background", async () => {
+      let callCount = 0;
+      const obj = {
+        getValue: async () => {
+          callCount++;
+          await new Promise((resolve) => setTimeout(resolve, 20));
+          return callCount;
+        },
+      };
+
+      const cached = KeyvCacheProxy({ store, ttl: 50, staleWhileRevalidate: 1000 })(obj);
+
+      expect(await cached.getValue()).toBe(1);
+      await new Promise((resolve) => setTimeout(resolve, 80));
+
+      // expired: stale value is served immediately, refresh runs in background
+      expect(await cached.getValue()).toBe(1);
+      expect(await cached.getValue()).toBe(1);
+      await new Promise((resolve) => setTimeout(resolve, 40));
+      expect(callCount).toBe(2);
+
+      expect(await cached.getValue()).toBe(2);
+    });
+
+    test("should fall back to the stale value when the method throws", async () => {
+      let fail = false;
+      const obj = {
+        getValue: () => {
+          if (fail) throw new Error("Upstream down");
+          return "last known";
+        },
+      };
+
+      const cached = KeyvCacheProxy({ store, ttl: 50, staleIfError: 1000 })(obj);
+
+      await cached.getValue();
+      await new Promise((resolve) => setTimeout(resolve, 80));
+      fail = true;
+
+      expect(await cached.getValue()).toBe("last known");
+    });
+
+    test("should throw once the stale-if-error window has passed", async () => {
+      let fail = false;
+      const obj = {
+        getValue: () => {
+          if (fail) throw new Error("Upstream down");
+          return "last known";
+        },
+      };
+
+      const cached = KeyvCacheProxy({ store, ttl: 30, staleIfError: 30 })(obj);
+
+      await cached.getValue();
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      fail = true;
+
+      await expect(cached.getValue()).rejects.toThrow("Upstream down");
+    });
+
+    test("should read values cached without an envelope", async () => {
+      await store.set("getValue()", "raw");
+      const obj = { getValue: () => "fresh" };
+
+      const cached = KeyvCacheProxy({ store, ttl: 50, staleIfError: 1000 })(obj);
+      expect(await cached.getValue()).toBe("raw");
+    });
+  });
+
+  describe("Non-function Properties", () => {
+    test("should return non-function properties as-is", async () => {
+      const obj = {
+        value: 42,
+        text: "hello",
+        method: () => "result",
+      };
+
+      const cached = KeyvCacheProxy({ store })(obj);
+
+      expect(cached.value).toBe(42);
+      expect(cached.text).toBe("hello");
+    });
+
+    test("should handle null and undefined properties", async () => {
+      const obj = {
+        nullValue: null as null,
+        undefinedValue: undefined as undefined,
+        method: () => "result",
+      };
+
+      const cached = KeyvCacheProxy({ store })(obj);
+
+      expect(cached.nullValue).toBe(null);
+      expect(cached.undefinedValue).toBe(undefined);
+    });
+  });
+
+  describe("Edge Cases", () => {
+    test("should handle methods with no arguments", async () => {
+      let callCount = 0;
+      const obj = {
+        getValue: () => {
+          callCount++;
+          return "value";
+        },
+      };
+
+      const cached = KeyvCacheProxy({ store })(obj);
+
+      await cached.getValue();
+      await cached.getValue();
+      expect(callCount).toBe(1);
+    });
+
+    test("should handle methods with complex object arguments", async () => {
+      let callCount = 0;
+      const obj = {
+        process: (data: { id: number; nested: { value: string } }) => {
+          callCount++;
+          return data.nested.value;
+        },
+      };
+
+      const cached = KeyvCacheProxy({ store })(obj);
+
+      const arg = { id: 1, nested: { value: "test" } };
+      await cached.process(arg);
+      await cached.process(arg);
+      expect(callCount).toBe(1);
+    });
+
+    test("should handle undefined cache values", async () => {
+      let callCount = 0;
+      const obj = {
+        getValue: () => {
+          callCount++;
+          return undefined;
+        },
+      };
+
+      const cached = KeyvCacheProxy({ store })(obj);
+      expect(await cached.getValue()).toBe(undefined);
+      expect(await cached.getValue()).toBe(undefined);
+      expect(callCount).toBe(2);
+
+      // an envelope whose undefined value the serializer dropped is still an envelope
+      await KeyvCacheProxy.control(cached).set("getValue", [], undefined);
+      expect(await cached.getValue()).toBe(undefined);
+      expect(callCount).toBe(3);
     });
 
     test("should handle null return values", async () => {
@@ -1,7 +1,71 @@
+import { randomUUID } from "node:crypto";
 import type Keyv from "keyv";
 import type { KeyvStoreAdapter } from "keyv";
+import {
+  type ArgsTransform,
+  createArgsTransform,
+  type RedactPatterns,
+  redactFields,
+} from "./args.js";
+import { type CircuitBreakerOptions, createBreaker } from "./breaker.js";
+import type { InvalidationBus, InvalidationMessage } from "./bus.js";
+import { type CassetteOptions, createCassette } from "./cassette.js";
+import { type CloneOptions, createCloner, sharesReferences } from "./clone.js";
+import { type CodecKind, codecOf, decode, encode } from "./codec.js";
+import { type CacheErrorsOptions, reviveError, serializeError } from "./errors.js";
+import {
+  conditionalHeaders,
+  freshness,
+  type HttpOptions,
+  isNotModified,
+  validatorsOf,
+} from "./http.js";
+import { drain, type IterableKind, iterableKind, replay } from "./iterables.js";
+import { hashKey, stableStringify } from "./keys.js";
+import { createLimiter, type Limiter, type LimitOptions, type RateBudget } from "./limiter.js";
+import { createLock, type LockOptions } from "./lock.js";
+import { createLru, type LruOptions } from "./lru.js";
+import { type CacheStats, createMetrics } from "./metrics.js";
+import {
+  type CacheMode,
+  type CachePolicies,
+  type CachePolicy,
+  createMutationResolver,
+  createPolicyResolver,
+  type InvalidationRule,
+  type MutationRules,
+} from "./policies.js";
+import { createRefresher, type RefreshAheadOptions } from "./refresh.js";
+
+export type { ArgsTransform, RedactPatterns } from "./args.js";
+export type { CircuitBreakerOptions } from "./breaker.js";
+export type { InvalidationBus, InvalidationMessage, PubSubClient } from "./bus.js";
+export { broadcastChannelBus, memoryBus, messagePortBus, pubSubBus } from "./bus.js";
+export type { CassetteEntry, CassetteMode, CassetteOptions } from "./cassette.js";
+export type { CloneOptions, CloneStrategy } from "./clone.js";
+export type { CodecKind, EncodedBlob, EncodedResponse } from "./codec.js";
+export type { CacheErrorsOptions, SerializedError } from "./errors.js";
+export type { HttpOptions, Validators } from "./http.js";
+export { conditionalHeaders } from "./http.js";
+export type { IterableKind } from "./iterables.js";
+export { hashKey, stableStringify } from "./keys.js";
+export type { LimitOptions, RateBudget } from "./limiter.js";
+export { rateLimitHeaders } from "./limiter.js";
+export type { LockOptions } from "./lock.js";
+export type { LruOptions } from "./lru.js";
+export type { CacheStats, HistogramSnapshot, MethodStats } from "./metrics.js";
+export { toPrometheus } from "./metrics.js";
+export type {
+  CacheMode,
+  CachePolicies,
+  CachePolicy,
+  InvalidationRule,
+  MutationRules,
+} from "./policies.js";
+export type { RefreshAheadOptions } from "./refresh.js";
 
 type Awaitable<T> = T | Promise<T>;
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
 /**
  * KeyvCacheProxy
  * A proxy wrapper that adds caching capabilities to an object's asynchronous methods using a Keyv store.
@@ -9,9 +73,33 @@ type Awaitable<T> = T | Promise<T>;
  *
  * @param store - An instance of Keyv to use as the cache store.
  * @param ttl - Time-to-live for cached entries in milliseconds.
- * @param onCached - Optional hook called when data is loaded from cache. Receives key and cached value, can return modified value.
- * @param onFetched - Optional hook called when data is freshly fetched. Receives key and fetched value, can return modified value before caching.
+ * @param onCached - Optional hook called when data is loaded from cache. Receives key, cached value and entry metadata, can return modified value.
+ * @param onFetched - Optional hook called when data is freshly fetched. Receives key, fetched value and entry metadata, can return modified value before caching.
  * @param prefix - Optional prefix to prepend to cache keys.
+ * @param dedupe - Share one pending fetch between concurrent identical calls (default: true).
+ * @param keyFn - Optional custom key derivation from the dotted method path and arguments.
+ * @param redact - Optional field names whose values are hashed instead of written out in keys.
+ * @param policies - Optional per-method TTL, key derivation or opt-out, keyed by dotted path or glob.
+ * @param mutations - Optional rules mapping mutating methods to the cached reads they invalidate.
+ * @param l1 - Optional bounded in-process LRU checked before the store.
+ * @param bus - Optional channel broadcasting invalidations to peer processes.
+ * @param cassette - Optional record/replay fixture of every upstream call, for offline tests.
+ * @param cacheErrors - Optional negative caching of selected thrown errors, with their own TTL.
+ * @param maxIterableItems - Optional cap on the items cached from an iterable result.
+ * @param http - Optional HTTP semantics for `{ status, headers }` results: cache-control and ETag revalidation.
+ * @param refreshAhead - Optional background refresh of hot keys shortly before they expire.
+ * @param earlyExpiration - Optional probabilistic early refresh (XFetch), without a scheduler.
+ * @param limit - Optional concurrency and rate limit of upstream calls made on cache misses.
+ * @param budget - Optional reader of the upstream's remaining rate budget, e.g. `rateLimitHeaders`.
+ * @param storeTimeout - Optional time limit of each store read and write on the call path.
+ * @param failOpen - Treat store failures as misses and skipped writes instead of failing the call.
+ * @param circuitBreaker - Optional breaker skipping an unhealthy store for a cool-down period.
+ * @param onStoreError - Optional hook reporting every failed store operation.
+ * @param backgroundWrites - Return fetched values without waiting for the store write.
+ * @param lock - Optional store-backed lock so one process fetches a missing key while others wait.
+ * @param clone - Copy (or freeze) values on their way into and out of the cache, so callers can't mutate cached data.
+ * @param mode - Default cache mode: `default`, `cache-only`, `refresh` or `bypass`, see `withMode`.
+ * @param metrics - Collect per-method hit/miss counters and latencies, see `getStats` (default: true).
  *
  * @returns A proxy-wrapped version of the input object with caching applied to its asynchronous methods.
  *
@@ -101,111 +189,1085 @@ type Awaitable<T> = T | Promise<T>;
  */
 export default function KeyvCacheProxy(options: {
   /** Keyv store instance to use for caching */
-  store: Keyv | KeyvStoreAdapter | Map<any, any>;
-  /** Time-to-live for cached entries in milliseconds */
+  store: CacheStore;
+  /** Time-to-live for cached entries in milliseconds. 0 or undefined: no expiry, as in Keyv */
   ttl?: number;
   /**
    * Called when data is loaded from cache. Receives key and cached value, can return modified value.
    * Returns undefined to use original cached value.
    * Return { skip: true } to skip returning cached value and treat as cache miss.
    * Return { data?: <value> } to return modified cached value.
+   * `meta` is undefined on a cache miss and for values cached before envelopes were introduced.
    */
-  onCached?: (key: string, value: any) => Awaitable<{ data?: any } | { skip: true } | undefined>;
+  onCached?: (
+    key: string,
+    value: any,
+    meta?: CacheMeta,
+  ) => Awaitable<{ data?: any } | { skip: true } | undefined>;
   /**
    * Called when data is freshly fetched. Receives key and fetched value, can return modified value before caching.
    * Return undefined to use original fetched value.
    * Return {} to use original fetched value with default TTL.
    * Return { data?: <value>, ttl?: <number> } to cache modified value with optional custom TTL.
+   * Return { tags?: <string[]> } to attach tags in addition to those from the policy, see `invalidateTag`.
    * Return { skip: true } to skip caching but still return fetched value.
+   * `meta` describes the entry about to be written, with `expiresAt` derived from the default TTL.
    */
   onFetched?: (
     key: string,
     value: any,
-  ) => Awaitable<{ data?: any; ttl?: number } | { skip: true } | undefined>;
+    meta: CacheMeta,
+  ) => Awaitable<{ data?: any; ttl?: number; tags?: string[] } | { skip: true } | undefined>;
   /** Prefix of keys */
   prefix?: string;
+  /**
+   * Coalesce concurrent cache misses for the same key into a single upstream call.
+   * Every waiter receives the same result (or the same error). Default: true.
+   */
+  dedupe?: boolean;
+  /**
+   * Window in milliseconds after `ttl` during which an expired value is still served
+   * while a background refresh runs.
+   */
+  staleWhileRevalidate?: number;
+  /**
+   * Window in milliseconds after `ttl` during which an expired value is returned
+   * when the wrapped method throws.
+   */
+  staleIfError?: number;
+  /** Serializer for each argument in the key. Default: `stableStringify` */
+  serialize?: (arg: unknown) => string;
+  /**
+   * Replace the default `path(arg1,arg2)` key. Receives the dotted method path
+   * (e.g. `repos.get`) and the call arguments; `prefix` is still prepended.
+   */
+  keyFn?: (path: string, args: any[]) => string;
+  /**
+   * Hash the serialized arguments into a fixed-length digest, keeping the method path readable:
+   * `repos.get(#<sha256>)`. `true` always hashes, a number hashes only arguments longer than that.
+   */
+  hashKeys?: boolean | number;
+  /**
+   * Field names (case-insensitive) or patterns whose values are hashed wherever they appear in
+   * arguments, so secrets never show up in plain text in keys or cassette fixtures,
+   * e.g. `["authorization", "token", /secret/i]`. Policies can also pick, omit or redact
+   * arguments with `keyArgs`.
+   */
+  redact?: RedactPatterns;
+  /**
+   * Per-method policies keyed by dotted method path or glob, e.g.
+   * `{ "repos.get": { ttl: 3600e3 }, "issues.*": { ttl: 60e3 }, "!*.create": true }`.
+   * Every matching policy applies, later entries override earlier ones.
+   */
+  policies?: CachePolicies;
+  /**
+   * Mutating methods keyed by dotted path or glob, mapped to the reads they invalidate.
+   * Matching methods are never cached; their invalidations run after the call succeeds.
+   */
+  mutations?: MutationRules;
+  /**
+   * Collect per-method hits, misses, stale serves, errors and latencies in memory.
+   * Read them with `KeyvCacheProxy.control(proxy).getStats()`. Default: true.
+   */
+  metrics?: boolean;
+  /**
+   * In-process LRU tier checked before the store, bounded by entry count and byte size.
+   * Writes fill both tiers and invalidations through the proxy clear both.
+   * Give it a shorter `ttl` than the store when other processes write to the same store.
+   */
+  l1?: boolean | LruOptions;
+  /**
+   * Broadcast key, prefix and tag invalidations made through the proxy, and replay those
+   * made by peers on the same channel so they evict their local copies too.
+   * See `broadcastChannelBus`, `messagePortBus`, `pubSubBus` and `memoryBus`.
+   */
+  bus?: InvalidationBus;
+  /**
+   * Record every upstream call (key, args and result) to a JSON fixture, or replay from it.
+   * In `replay` mode unrecorded calls throw instead of reaching the wrapped method.
+   */
+  cassette?: CassetteOptions;
+  /**
+   * Cache mode of every method unless a policy or `withMode` selects another one.
+   * `default` reads and writes, `cache-only` throws on a miss, `refresh` skips the read,
+   * `bypass` neither reads nor writes. Default: `default`.
+   */
+  mode?: CacheMode;
+  /**
+   * Cache errors thrown by the wrapped method when `when` accepts them, e.g. a 404 for a missing
+   * repo, and rethrow an equivalent error on a hit until `ttl` passes. Errors are stored as
+   * `{ name, message, ...fields }`, never served stale, and never replace a stale value
+   * that `staleIfError` can still serve.
+   */
+  cacheErrors?: CacheErrorsOptions;
+  /**
+   * Results that are async iterables or iterators (generators, `paginate.iterator`) are consumed
+   * and their items cached; each hit replays them through a fresh iterator of the same kind.
+   * Sequences longer than this are passed through uncached. Set 0 to never cache them.
+   * Default: 10000.
+   */
+  maxIterableItems?: number;
+  /**
+   * Honour HTTP caching headers of `{ status, headers }` results (Octokit responses, `Response`):
+   * the TTL comes from `s-maxage`/`max-age`, `no-store` responses are never cached, and expired
+   * entries with an ETag or Last-Modified are revalidated with a conditional call, where a 304
+   * refreshes the existing entry.
+   */
+  http?: boolean | HttpOptions;
+  /**
+   * Track cache hits and re-run the fetch of hot keys, with the arguments recorded when they
+   * were fetched, once they get close to expiry. Stop it with `control.stop()`.
+   */
+  refreshAhead?: boolean | RefreshAheadOptions;
+  /**
+   * Probabilistic early expiration (XFetch): each hit may trigger a background refresh before
+   * the entry expires, likelier the closer it is to expiry and the slower its fetch was.
+   * `true` or a number weighting how early refreshes happen (`beta`, default 1).
+   */
+  earlyExpiration?: boolean | number;
+  /**
+   * Throttle the upstream calls of cache misses and refreshes, shared by every method;
+   * hits are never throttled. Policies may set a `limit` of their own per method path,
+   * and a `priority` for their queued calls.
+   */
+  limit?: LimitOptions;
+  /**
+   * Read the upstream's remaining rate budget from each result or thrown error of a
+   * throttled call, and align the limits with it. See `rateLimitHeaders`.
+   */
+  budget?: (outcome: unknown) => RateBudget | undefined;
+  /** Milliseconds after which a store read or write made by a call fails. Default: no limit */
+  storeTimeout?: number;
+  /**
+   * On a failed store read the call goes to the wrapped method as on a miss, and a failed
+   * write is dropped, so a store outage never fails a call. Default: false
+   */
+  failOpen?: boolean;
+  /**
+   * Stop using a store that keeps failing for a cool-down period: calls skip it, then a single
+   * trial operation checks whether it recovered. Best combined with `failOpen`.
+   */
+  circuitBreaker?: boolean | CircuitBreakerOptions;
+  /** Called for every failed (or timed out) store read and write made by a call */
+  onStoreError?: (
+    error: unknown,
+    context: { path: string; key: string; op: "read" | "write" },
+  ) => void;
+  /** Return fetched values without waiting for the store write, which still reports failures */
+  backgroundWrites?: boolean;
+  /**
+   * Cross-process stampede protection: the first process to miss a key takes a short-lived
+   * lock in the store and fetches; the others poll for its value until the lock is released
+   * or expires, or `wait` passes, then fetch themselves. Works with any store.
+   */
+  lock?: boolean | LockOptions;
+  /**
+   * Keep cached values apart from the objects callers hold, so mutating a result never changes
+   * what the next caller gets: `structured` copies, `freeze` deep-freezes, or a custom function,
+   * for both directions or as `{ write, read }`. Default: `structured` when the store hands back
+   * the objects it was given (a `Map`, or Keyv without serialization) or `l1` is on, else `false`.
+   */
+  clone?: CloneOptions;
 }) {
-  const { store, ttl, onCached, onFetched, prefix = "" } = options;
+  const {
+    store,
+    onCached,
+    onFetched,
+    prefix = "",
+    dedupe = true,
+    staleWhileRevalidate = 0,
+    staleIfError = 0,
+    serialize = stableStringify,
+    keyFn,
+    hashKeys = false,
+    redact = [],
+    policies,
+    mutations,
+    bus,
+    cacheErrors,
+    maxIterableItems = 10000,
+    storeTimeout,
+    failOpen = false,
+    backgroundWrites = false,
+  } = options;
+  const metrics = options.metrics === false ? undefined : createMetrics();
+  const cassette = options.cassette && createCassette(options.cassette);
+  const l1 = options.l1 ? createLru<CacheEntry>(options.l1 === true ? {} : options.l1) : undefined;
+  // stores that keep references would otherwise share one object between every caller
+  const clone = options.clone ?? (sharesReferences(store) || l1 ? "structured" : false);
+  const cloneOnWrite = createCloner(typeof clone === "object" ? clone.write : clone);
+  const cloneOnRead = createCloner(typeof clone === "object" ? clone.read : clone);
+  // pending fetches by cache key, shared by every nested proxy of this instance
+  const inflight = new Map<string, Promise<any>>();
+  const staleWindow = Math.max(staleWhileRevalidate, staleIfError);
+  const refresher = options.refreshAhead
+    ? createRefresher(options.refreshAhead === true ? {} : options.refreshAhead)
+    : undefined;
+  const limiter = options.limit && createLimiter(options.limit);
+  const breaker = options.circuitBreaker
+    ? createBreaker(options.circuitBreaker === true ? {} : options.circuitBreaker)
+    : undefined;
+  const pathLimiters = new Map<string, Limiter>();
+  const beta = options.earlyExpiration === true ? 1 : options.earlyExpiration || 0;
+  const http = options.http === true ? {} : options.http || undefined;
+  const { conditional = conditionalHeaders, revalidateWindow = 86400e3 } = http ?? {};
+  // validators of an entry that can be revalidated once expired
+  const revalidator = (entry: CacheEntry) =>
+    http && !entry.error && !entry.iterable ? validatorsOf(entry.v) : undefined;
+  // how long the store keeps an entry past its logical expiry
+  const retention = (entry: CacheEntry) =>
+    revalidator(entry) ? Math.max(staleWindow, revalidateWindow) : staleWindow;
 
-  return <T extends object>(obj: T): DeepAsyncMethod<T> =>
-    new Proxy(obj, {
-      get(target, prop, receiver) {
-        // handle wrap method calls with caching
-        const val = target[prop as keyof T];
-        if (typeof val === "function") {
-          const method = val.bind(obj);
-          return async (...args: any[]) => {
-            const key = `${prefix}${String(prop)}(${args.map((arg) => JSON.stringify(arg)).join(",")})`;
-
-            // Check cache
-            let cached = await store.get(key);
-            if (onCached) {
-              const modified = await onCached(key, cached);
-              if (modified !== undefined && typeof modified === "object" && modified !== null) {
-                if ("skip" in modified && modified.skip) {
-                  // Treat as cache miss
-                  cached = undefined;
-                } else if ("data" in modified) {
-                  // Return modified data
-                  return modified.data;
-                }
-                // If modified is {} without skip or data, continue with original cached value
-              }
+  const hashThreshold = hashKeys === true ? 0 : hashKeys === false ? Infinity : hashKeys;
+  const resolvePolicy = createPolicyResolver(policies);
+  const transforms = new WeakMap<ArgsTransform, (args: any[]) => any[]>();
+  // the arguments as they make up the key: transformed by the policy, with secrets hashed
+  const keyArgsOf = (path: string, args: any[]) => {
+    const { keyArgs } = resolvePolicy(path);
+    if (keyArgs && !transforms.has(keyArgs)) transforms.set(keyArgs, createArgsTransform(keyArgs));
+    const transform = keyArgs && transforms.get(keyArgs);
+    return redactFields(transform ? transform(args) : args, redact);
+  };
+  const deriveKey = (path: string, callArgs: any[]) => {
+    const args = keyArgsOf(path, callArgs);
+    const derive = resolvePolicy(path).keyFn ?? keyFn;
+    if (derive) return `${prefix}${derive(path, args)}`;
+    const serialized = args.map(serialize).join(",");
+    return serialized.length > hashThreshold
+      ? `${prefix}${path}(#${hashKey(serialized)})`
+      : `${prefix}${path}(${serialized})`;
+  };
+
+  // a result in the form it is stored: iterables drained, responses and binary payloads encoded
+  const pack = async (result: unknown): Promise<StoredValue> => {
+    const iterable = iterableKind(result);
+    if (iterable) {
+      const { items, rest } = await drain(result, iterable, maxIterableItems);
+      // too long to cache: hand over the consumed items followed by the rest of the source
+      return rest ? { v: replay(iterable, items, rest), once: true } : { v: items, iterable };
+    }
+    const codec = codecOf(result);
+    return codec ? { v: await encode(codec, result), codec } : { v: result };
+  };
+
+  // call the wrapped method, recording its latency and errors
+  const upstream = async (
+    path: string,
+    key: string,
+    method: (...args: any[]) => any,
+    args: any[],
+  ) => {
+    const start = performance.now();
+    try {
+      if (!cassette) return await method(...args);
+      // the cassette records the stored form, and replays a fresh value from it
+      const played = await cassette.play(key, path, keyArgsOf(path, args), async () =>
+        pack(await method(...args)),
+      );
+      return unpack(played, (value) => value);
+    } catch (error) {
+      // a conditional call may throw its 304, as Octokit does
+      if (!(http && isNotModified(error))) metrics?.count(path, "upstreamErrors");
+      throw error;
+    } finally {
+      metrics?.observe(path, "upstreamLatency", performance.now() - start);
+    }
+  };
+  // call upstream on a miss, within the global limit and the method's own
+  const throttled = async (
+    path: string,
+    policy: CachePolicy,
+    call: () => Promise<any>,
+  ): Promise<any> => {
+    let pathLimiter = pathLimiters.get(path);
+    if (!pathLimiter && policy.limit) {
+      pathLimiter = createLimiter(policy.limit);
+      pathLimiters.set(path, pathLimiter);
+    }
+    // the method's slot is taken first, so waiting on it never holds a global slot
+    const limiters = [limiter, pathLimiter].filter((scope): scope is Limiter => Boolean(scope));
+    if (!limiters.length) return call();
+    const adjust = (outcome: unknown) => {
+      const remaining = options.budget?.(outcome);
+      if (remaining) for (const scope of limiters) scope.budget(remaining);
+    };
+    const run = limiters.reduce(
+      (next, scope) => () => scope.run(next, policy.priority),
+      async () => {
+        try {
+          const result = await call();
+          adjust(result);
+          return result;
+        } catch (error) {
+          adjust(error);
+          throw error;
+        }
+      },
+    );
+    return run();
+  };
+  // run a store operation on behalf of a method, recording its latency and errors
+  const storeOp = async <R>(
+    path: string,
+    key: string,
+    op: "read" | "write",
+    run: () => Promise<R>,
+  ): Promise<R> => {
+    if (breaker && !breaker.allow()) throw new Error("KeyvCacheProxy: the store circuit is open");
+    const start = performance.now();
+    try {
+      const result = await (storeTimeout === undefined ? run() : timeout(run(), storeTimeout, op));
+      breaker?.success();
+      return result;
+    } catch (error) {
+      breaker?.failure();
+      metrics?.count(path, "storeErrors");
+      options.onStoreError?.(error, { path, key, op });
+      throw error;
+    } finally {
+      metrics?.observe(path, "storeLatency", performance.now() - start);
+    }
+  };
+  const storeWrite = (path: string, key: string, write: () => Promise<void>) => {
+    const written = storeOp(path, key, "write", write).catch((error) => {
+      if (!failOpen) throw error;
+    });
+    if (!backgroundWrites) return written;
+    written.catch(() => {
+      // already reported through metrics and onStoreError
+    });
+    return Promise.resolve();
+  };
+
+  const tagKey = (tag: string) => `${prefix}__tag__:${tag}`;
+  const readTagIndex = async (tag: string): Promise<TagIndex> => {
+    const index: TagIndex | string[] | undefined = await store.get(tagKey(tag));
+    // indexes written before they tracked expiries are plain key lists
+    return Array.isArray(index)
+      ? Object.fromEntries(index.map((key) => [key, null]))
+      : (index ?? {});
+  };
+  const lockKey = (key: string) => `${prefix}__lock__:${key}`;
+  const lockOptions = options.lock === true ? {} : options.lock || undefined;
+  // the store as seen by a method's lock, with timeouts, the breaker and error reporting
+  const lockStore = (path: string) => ({
+    get: (key: string) => storeOp(path, key, "read", async () => store.get(key)),
+    set: (key: string, value: unknown, ttl?: number) =>
+      storeOp(path, key, "write", async () => store.set(key, value, ttl)),
+    delete: (key: string) => storeOp(path, key, "write", async () => store.delete(key)),
+  });
+  // the store keeps each entry for the longest stale window past its logical expiry
+  const retainUntil = (entry: CacheEntry) =>
+    entry.expiresAt === undefined ? Infinity : entry.expiresAt + retention(entry);
+
+  const readTiered = async (path: string, key: string) => {
+    const local = l1?.get(key);
+    if (local) return local;
+    const entry = readEntry(
+      await storeOp(path, key, "read", async () => store.get(key)).catch((error) => {
+        // fail open: a store that can't be read is a miss
+        if (failOpen) return undefined;
+        throw error;
+      }),
+    );
+    if (entry) l1?.set(key, entry, retainUntil(entry));
+    return entry;
+  };
+
+  const writeEntry = async (
+    key: string,
+    value: any,
+    {
+      ttl,
+      fetchedAt = Date.now(),
+      tags = [],
+      error = false,
+      iterable,
+      codec,
+      fetchMs,
+    }: {
+      ttl?: number;
+      fetchedAt?: number;
+      tags?: string[];
+      error?: boolean;
+      iterable?: IterableKind;
+      codec?: CodecKind;
+      fetchMs?: number;
+    },
+  ) => {
+    const entry: CacheEntry = {
+      v: cloneOnWrite(value),
+      fetchedAt,
+      expiresAt: ttl === undefined ? undefined : fetchedAt + ttl,
+      tags,
+      schemaVersion: SCHEMA_VERSION,
+      ...(error && { error }),
+      ...(iterable && { iterable }),
+      ...(codec && { codec }),
+      ...(fetchMs !== undefined && { fetchMs }),
+    };
+    await store.set(key, entry, ttl === undefined ? undefined : ttl + retention(entry));
+    l1?.set(key, entry, retainUntil(entry));
+    // The tag index lives in the same store so every process sharing it sees the same tags.
+    // Concurrent writers may race on the read-modify-write; a lost key only means that entry
+    // outlives an invalidation until its TTL, and stale index keys are skipped on invalidation.
+    // Each rewrite drops the keys whose entries left the store, and the index itself is kept
+    // as long as its longest-lived entry.
+    const until = retainUntil(entry);
+    await Promise.all(
+      tags.map(async (tag) => {
+        const now = Date.now();
+        const index: TagIndex = {
+          ...(await readTagIndex(tag)),
+          [key]: until === Infinity ? null : until,
+        };
+        const live = Object.entries(index).filter(([, expiry]) => expiry === null || expiry > now);
+        const ttl = live.some(([, expiry]) => expiry === null)
+          ? undefined
+          : Math.max(...live.map(([, expiry]) => expiry as number)) - now;
+        await store.set(tagKey(tag), Object.fromEntries(live), ttl);
+      }),
+    );
+  };
+
+  // local evictions, run for invalidations made through this proxy and replayed from peers
+  const evictKey = async (key: string, writtenAt?: number) => {
+    l1?.delete(key);
+    if (writtenAt !== undefined) {
+      // a value a peer just wrote: in a shared store it is the current entry, keep it
+      const entry = readEntry(await store.get(key));
+      if (!entry || entry.fetchedAt >= writtenAt) return false;
+    }
+    return Boolean(await store.delete(key));
+  };
+
+  const evictPrefix = async (fullPath: string) => {
+    const start = `${prefix}${fullPath}`;
+    // stop at a path boundary so `repos.get` does not match `repos.getBranch(...)`
+    const matches = (key: string) =>
+      key.startsWith(start) && !(fullPath && /^[\w$]/.test(key.slice(start.length)));
+    l1?.deleteWhere(matches);
+    const keys: string[] = [];
+    for await (const key of storeKeys(store)) {
+      if (matches(key)) keys.push(key);
+    }
+    await Promise.all(keys.map((key) => store.delete(key)));
+    return keys.length;
+  };
+
+  const evictTag = async (tag: string) => {
+    l1?.deleteWhere((_key, entry) => entry.tags.includes(tag));
+    const keys = Object.keys(await readTagIndex(tag));
+    let removed = 0;
+    for (const key of keys) {
+      // the entry may have expired, or been rewritten without this tag since it was indexed
+      const entry = readEntry(await store.get(key));
+      if (entry?.tags.includes(tag) && (await store.delete(key))) removed++;
+    }
+    await store.delete(tagKey(tag));
+    return removed;
+  };
+
+  const origin = randomUUID();
+  const broadcast = async (message: DistributiveOmit<InvalidationMessage, "origin">) => {
+    await bus?.publish({ ...message, origin } as InvalidationMessage);
+  };
+  const unsubscribe = bus?.subscribe((message) => {
+    if (message.origin === origin) return;
+    const evicted =
+      message.type === "key"
+        ? evictKey(message.key, message.writtenAt)
+        : message.type === "prefix"
+          ? evictPrefix(message.path)
+          : evictTag(message.tag);
+    evicted.catch(() => {
+      // a peer's store may not support listing keys; its L1 is already cleared
+    });
+  });
+
+  const invalidateTag = async (tag: string) => {
+    const removed = await evictTag(tag);
+    await broadcast({ type: "tag", tag });
+    return removed;
+  };
+
+  const control = (base: string): CacheControl => {
+    // paths given to the control surface are relative to the proxy it was taken from
+    const resolve = (path: string) => [base.slice(0, -1), path].filter(Boolean).join(".");
+    return {
+      async invalidate(path, ...args) {
+        const key = deriveKey(resolve(path), args);
+        const removed = await evictKey(key);
+        await broadcast({ type: "key", key });
+        return removed;
+      },
+      async invalidatePrefix(path = "") {
+        const fullPath = resolve(path);
+        const removed = await evictPrefix(fullPath);
+        await broadcast({ type: "prefix", path: fullPath });
+        return removed;
+      },
+      async peek(path, ...args) {
+        const fullPath = resolve(path);
+        const entry = await readTiered(fullPath, deriveKey(fullPath, args));
+        return entry && !entry.error && Date.now() < (entry.expiresAt ?? Infinity)
+          ? unpack(entry, cloneOnRead)
+          : undefined;
+      },
+      async set(path, args, value) {
+        const fullPath = resolve(path);
+        const key = deriveKey(fullPath, args);
+        const codec = codecOf(value);
+        const fetchedAt = Date.now();
+        await writeEntry(key, codec ? await encode(codec, value) : value, {
+          ttl: noExpiryAtZero(resolvePolicy(fullPath).ttl ?? options.ttl),
+          fetchedAt,
+          codec,
+        });
+        await broadcast({ type: "key", key, writtenAt: fetchedAt });
+      },
+      invalidateTag,
+      getStats: () => metrics?.snapshot() ?? {},
+      async stop() {
+        await refresher?.stop();
+      },
+      close() {
+        unsubscribe?.();
+        refresher?.stop();
+      },
+    };
+  };
+
+  const resolveMutation = createMutationResolver(mutations);
+  const runInvalidations = async (rules: InvalidationRule[], args: any[], result: any) => {
+    const root = control("");
+    await Promise.all(
+      rules.map(async (rule) => {
+        if (typeof rule === "string") return root.invalidatePrefix(rule);
+        if ("tag" in rule) {
+          const tags = typeof rule.tag === "function" ? rule.tag(args, result) : rule.tag;
+          return Promise.all([tags].flat().map(root.invalidateTag));
+        }
+        return root.invalidate(rule.path, ...(rule.args ? rule.args(args, result) : args));
+      }),
+    );
+  };
+
+  const share = (key: string, load: () => Promise<any>) => {
+    const pending = inflight.get(key);
+    if (pending) return pending;
+    const promise = load().finally(() => inflight.delete(key));
+    inflight.set(key, promise);
+    return promise;
+  };
+
+  // one cached call of a method (or a directly called function) at a dotted path
+  const invoke = async (
+    methodPath: string,
+    method: (...args: any[]) => any,
+    args: any[],
+    scopedMode?: CacheMode,
+  ) => {
+    const key = deriveKey(methodPath, args);
+    const policy = resolvePolicy(methodPath);
+    const mode = scopedMode ?? policy.mode ?? options.mode ?? "default";
+    const invalidates = resolveMutation(methodPath);
+    if ((invalidates || policy.cache === false) && mode === "cache-only") {
+      throw new Error(
+        `KeyvCacheProxy: ${methodPath} is never cached, cannot call it in cache-only mode`,
+      );
+    }
+    if (invalidates) {
+      // mutations pass straight through, and only invalidate once they succeed
+      const result = await upstream(methodPath, key, method, args);
+      await runInvalidations(invalidates, args, result);
+      return result;
+    }
+    if (policy.cache === false || mode === "bypass") {
+      return upstream(methodPath, key, method, args);
+    }
+    const ttl = noExpiryAtZero(policy.ttl ?? options.ttl);
+
+    // Check cache, unless refreshing
+    const entry = mode === "refresh" ? undefined : await readTiered(methodPath, key);
+    const now = Date.now();
+    const expiresAt = entry?.expiresAt ?? Infinity;
+    if (entry?.error && now < expiresAt) {
+      metrics?.count(methodPath, "hits");
+      throw reviveError(entry.v);
+    }
+    let cached = entry && now < expiresAt && !entry.error ? unpack(entry, cloneOnRead) : undefined;
+    // expired, but still inside a stale window; cached errors are never served stale
+    const stale =
+      entry && !entry.error && now >= expiresAt && now < expiresAt + staleWindow
+        ? entry
+        : undefined;
+    if (stale && now < expiresAt + staleWhileRevalidate) {
+      // serve the stale value now, refresh in the background
+      cached = unpack(stale, cloneOnRead);
+      if (mode !== "cache-only") {
+        share(key, fetchFresh).catch(() => {
+          // the next caller retries; the stale value stays until its window ends
+        });
+      }
+    }
+    // XFetch: -log(random) is rarely large, so early refreshes cluster right before expiry
+    const early =
+      beta > 0 &&
+      cached !== undefined &&
+      !stale &&
+      entry?.fetchMs !== undefined &&
+      now - entry.fetchMs * beta * Math.log(Math.random()) >= expiresAt;
+    if (early && mode !== "cache-only") {
+      share(key, fetchFresh).catch(() => {
+        // the entry is served until it expires, then fetched as usual
+      });
+    }
+    if (onCached) {
+      const meta = cached === undefined ? undefined : metaOf(stale ?? entry);
+      const modified = await onCached(key, cached, meta);
+      if (modified !== undefined && typeof modified === "object" && modified !== null) {
+        if ("skip" in modified && modified.skip) {
+          // Treat as cache miss
+          cached = undefined;
+        } else if ("data" in modified) {
+          // Return modified data
+          metrics?.count(methodPath, cached !== undefined && stale ? "stale" : "hits");
+          return modified.data;
+        }
+        // If modified is {} without skip or data, continue with original cached value
+      }
+    }
+    if (cached !== undefined) {
+      metrics?.count(methodPath, stale ? "stale" : "hits");
+      if (!stale) refresher?.hit(key);
+      return cached;
+    }
+
+    metrics?.count(methodPath, "misses");
+    if (mode === "cache-only") {
+      throw new Error(`KeyvCacheProxy: cache miss for ${key} in cache-only mode`);
+    }
+    try {
+      const pending = dedupe ? inflight.get(key) : undefined;
+      const stored: StoredValue = await (dedupe ? share(key, fetchLocked) : fetchLocked());
+      // a single-use result goes to the caller that started the fetch, the others fetch their own
+      return unpack(pending && stored.once ? await fetchLocked() : stored, cloneOnRead);
+    } catch (error) {
+      if (stale && now < expiresAt + staleIfError) {
+        metrics?.count(methodPath, "stale");
+        return unpack(stale, cloneOnRead);
+      }
+      throw error;
+    }
+
+    // another process may be fetching the same key: wait for its value instead of stampeding
+    async function fetchLocked(): Promise<StoredValue> {
+      if (!lockOptions) return fetchFresh();
+      const lock = createLock(lockStore(methodPath), lockOptions);
+      const token = await lock.acquire(lockKey(key)).catch(() => null);
+      // null: the store failed, skip locking
+      if (token !== undefined) {
+        try {
+          return await fetchFresh();
+        } finally {
+          if (token) {
+            await lock.release(lockKey(key), token).catch(() => {
+              // the lock expires on its own
+            });
+          }
+        }
+      }
+      const found = await lock
+        .waitFor(lockKey(key), async () => {
+          const fetched = readEntry(
+            await storeOp(methodPath, key, "read", async () => store.get(key)),
+          );
+          return fetched && Date.now() < (fetched.expiresAt ?? Infinity) ? fetched : undefined;
+        })
+        .catch(() => undefined);
+      if (!found) return fetchFresh();
+      l1?.set(key, found, retainUntil(found));
+      if (found.error) throw reviveError(found.v);
+      return found;
+    }
+
+    // resolves the value as stored, callers each unpack their own copy from it
+    async function fetchFresh(): Promise<StoredValue> {
+      // an expired entry with an ETag or Last-Modified is revalidated with a conditional call
+      const expired = entry && Date.now() >= expiresAt ? entry : undefined;
+      const validators = expired && revalidator(expired);
+      // Fetch fresh data
+      const started = performance.now();
+      let result: any;
+      try {
+        result = await throttled(methodPath, policy, () =>
+          upstream(methodPath, key, method, validators ? conditional(args, validators) : args),
+        ); // call original method
+      } catch (error) {
+        if (expired && validators && isNotModified(error)) return notModified(expired, error);
+        await cacheError(error);
+        throw error;
+      }
+      if (expired && validators && isNotModified(result)) return notModified(expired, result);
+      // nothing to cache, or a function such as Octokit's `graphql.defaults()`, which can't be
+      // stored: a later call fetches again
+      if (result === undefined || typeof result === "function") return { v: result };
+      // read before a Response body is consumed by the codec
+      const cacheControl = http && freshness(result);
+      const packed = await pack(result);
+      if (packed.once) return packed;
+      const { iterable } = packed;
+      // responses and binary payloads are stored encoded, hooks get a fresh copy
+      let { codec } = packed;
+      result = packed.v;
+      const view = () => (codec ? decode(codec, result) : result);
+      if (cacheControl && !cacheControl.store) return { v: result, iterable, codec };
+      let customTtl = cacheControl ? cacheControl.ttl : ttl;
+      const fetchedAt = Date.now();
+      const fetchMs = beta > 0 ? performance.now() - started : undefined;
+      let tags =
+        typeof policy.tags === "function" ? policy.tags(args, view()) : (policy.tags ?? []);
+
+      // onFetched hook - can modify result before caching
+      if (onFetched) {
+        const meta: CacheMeta = {
+          fetchedAt,
+          expiresAt: customTtl === undefined ? undefined : fetchedAt + customTtl,
+          tags,
+          schemaVersion: SCHEMA_VERSION,
+        };
+        const modified = await onFetched(key, view(), meta);
+        if (modified !== undefined && typeof modified === "object" && modified !== null) {
+          if ("skip" in modified && modified.skip) {
+            // Skip caching, but still return the fetched value
+            return { v: result, iterable, codec };
+          } else if ("data" in modified || "ttl" in modified || "tags" in modified) {
+            // Use modified data, custom TTL and/or extra tags
+            if ("data" in modified && modified.data !== undefined) {
+              codec = codecOf(modified.data);
+              result = codec ? await encode(codec, modified.data) : modified.data;
             }
-            if (cached !== undefined) {
-              return cached;
+            if ("ttl" in modified && modified.ttl !== undefined) {
+              customTtl = noExpiryAtZero(modified.ttl);
             }
-
-            // Fetch fresh data
-            let result = await method(...args); // call original method
-            let customTtl = ttl;
-
-            // onFetched hook - can modify result before caching
-            if (onFetched) {
-              const modified = await onFetched(key, result);
-              if (modified !== undefined && typeof modified === "object" && modified !== null) {
-                if ("skip" in modified && modified.skip) {
-                  // Skip caching, but still return the fetched value
-                  return result;
-                } else if ("data" in modified || "ttl" in modified) {
-                  // Use modified data and/or custom TTL
-                  if ("data" in modified && modified.data !== undefined) {
-                    result = modified.data;
-                  }
-                  if ("ttl" in modified && modified.ttl !== undefined) {
-                    customTtl = modified.ttl;
-                  }
-                }
-                // If modified is {} without skip/data/ttl, use original result with default TTL
-              }
+            if ("tags" in modified && modified.tags !== undefined) {
+              tags = [...new Set([...tags, ...modified.tags])];
             }
+          }
+          // If modified is {} without skip/data/ttl/tags, use original result with default TTL
+        }
+      }
+
+      await storeWrite(methodPath, key, () =>
+        writeEntry(key, result, { ttl: customTtl, fetchedAt, tags, iterable, codec, fetchMs }),
+      );
+      if (refresher && customTtl !== undefined) {
+        refresher.track(key, fetchedAt + customTtl, customTtl, () =>
+          invoke(methodPath, method, args, "refresh"),
+        );
+      }
+      return { v: result, iterable, codec };
+    }
+
+    // a 304 keeps the cached value, with its TTL renewed from the response or as before
+    async function notModified(expired: CacheEntry, response: unknown): Promise<StoredValue> {
+      const previousTtl =
+        expired.expiresAt === undefined ? undefined : expired.expiresAt - expired.fetchedAt;
+      await storeWrite(methodPath, key, () =>
+        writeEntry(key, expired.v, {
+          ttl: freshness(response)?.ttl ?? previousTtl,
+          tags: expired.tags,
+          codec: expired.codec,
+        }),
+      );
+      return { v: expired.v, codec: expired.codec };
+    }
+
+    async function cacheError(error: unknown) {
+      if (!cacheErrors?.when(error, methodPath)) return;
+      // keep a stale value that staleIfError can still serve instead
+      if (stale && Date.now() < expiresAt + staleIfError) return;
+      await storeWrite(methodPath, key, () =>
+        writeEntry(key, serializeError(error, cacheErrors.fields), {
+          ttl: noExpiryAtZero(cacheErrors.ttl) ?? ttl,
+          tags: Array.isArray(policy.tags) ? policy.tags : [],
+          error: true,
+        }),
+      ).catch(() => {
+        // failing to cache the error must not mask it
+      });
+    }
+  };
+
+  // one proxy per wrapped object, `this` object, path and mode, so `cached.repos === cached.repos`
+  const proxies = new WeakMap<object, WeakMap<object, Map<string, object>>>();
+  // the object behind each proxy: methods run on it, so `#private` fields and internal slots work
+  const targets = new WeakMap<object, object>();
 
-            await store.set(key, result, customTtl);
-            return result;
-          };
+  /**
+   * Proxy `obj`, whose functions were read from `self`.
+   * - `then` always reads as undefined, so a proxy is never mistaken for a thenable
+   * - symbol properties (`Symbol.iterator`, `Symbol.toStringTag`, ...) are returned as is, never cached
+   * - getters run on the wrapped object, or on an object inheriting from the proxy that they were
+   *   read through; objects and functions they return are proxied like any other property
+   * - methods, own or inherited, run on the object they were read from, unless called on another
+   *   object with `call`, `apply`, `bind` or as the method of an object inheriting from the proxy;
+   *   either way they are cached under their own path
+   */
+  const wrap = <T extends object>(
+    obj: T,
+    path: string,
+    scopedMode?: CacheMode,
+    self?: object,
+  ): DeepAsyncMethod<T> => {
+    const byThis = proxies.get(obj) ?? new WeakMap<object, Map<string, object>>();
+    proxies.set(obj, byThis);
+    const byPath = byThis.get(self ?? obj) ?? new Map<string, object>();
+    byThis.set(self ?? obj, byPath);
+    const id = `${scopedMode ?? ""}:${path}`;
+    const memoized = byPath.get(id);
+    if (memoized) return memoized as DeepAsyncMethod<T>;
+
+    const proxy = new Proxy(obj, {
+      // direct calls of a wrapped function, cached under its own path
+      apply(target, thisArg, args) {
+        const receiver =
+          typeof thisArg === "object" && thisArg !== null
+            ? (targets.get(thisArg) ?? thisArg)
+            : (thisArg ?? self);
+        const method = (...args: any[]) =>
+          Reflect.apply(target as (...args: any[]) => any, receiver, args);
+        return invoke(path.slice(0, -1), method, args, scopedMode);
+      },
+      get(target, prop, receiver) {
+        if (prop === $cache) return control(path);
+        if (prop === $withMode) return (mode: CacheMode) => wrap(obj, path, mode, self);
+        if (prop === "then") return undefined;
+        // the proxy itself stands for the wrapped object, anything else inherits from the proxy
+        const thisObj = targets.has(receiver) ? target : receiver;
+        if (typeof prop === "symbol") return Reflect.get(target, prop, thisObj);
+        // proxies must return non-configurable read-only properties as is, e.g. a class' prototype
+        const descriptor = Reflect.getOwnPropertyDescriptor(target, prop);
+        if (descriptor && !descriptor.configurable && !descriptor.writable) {
+          return Reflect.get(target, prop, receiver);
         }
-        // deep proxy for nested objects
-        if (typeof val === "object" && val !== null) {
-          return KeyvCacheProxy({
-            store,
-            ttl,
-            onCached,
-            onFetched,
-            prefix: `${prefix}${String(prop)}.`,
-          })(val);
+        const val = Reflect.get(target, prop, thisObj);
+        // `call`, `apply`, `bind` and the like stay native, so their calls reach the apply trap
+        // and are cached under the function's own path
+        if (typeof target === "function" && val === Reflect.get(Function.prototype, prop)) {
+          return val;
         }
+        // methods are callable proxies: calls are cached, their own properties stay proxied
+        if (typeof val === "function") return wrap(val, `${path}${prop}.`, scopedMode, thisObj);
+        // deep proxy for nested objects
+        if (typeof val === "object" && val !== null)
+          return wrap(val, `${path}${prop}.`, scopedMode);
         // return property value for non-function properties
-        return Reflect.get(target, prop, receiver);
+        return val;
       },
     }) as DeepAsyncMethod<T>;
+    byPath.set(id, proxy);
+    targets.set(proxy, obj);
+    return proxy;
+  };
+
+  /**
+   * Wrap an object, or a function called directly under `name`
+   * (default: the function's own name without `bound `, or `call`).
+   */
+  return <T extends object>(obj: T, name?: string): DeepAsyncMethod<T> =>
+    wrap(
+      obj,
+      typeof obj === "function"
+        ? `${name ?? ((obj as { name: string }).name.replace(/^bound /, "") || "call")}.`
+        : "",
+    );
+}
+
+/**
+ * Symbol key of the cache control surface on every proxy, see `KeyvCacheProxy.control`.
+ * A symbol never collides with the wrapped object's own properties.
+ */
+export const $cache = Symbol("keyv-cache-proxy.control");
+
+const $withMode = Symbol("keyv-cache-proxy.withMode");
+
+/**
+ * withMode
+ * A handle on a proxy (or any of its nested proxies) whose calls all use the given cache mode,
+ * overriding the `mode` option and policies.
+ *
+ * @example
+ * ```ts
+ * // admin "force refresh" button
+ * await withMode(gh, "refresh").repos.get({ owner, repo });
+ * // offline script: never reach the API
+ * const offline = withMode(gh, "cache-only");
+ * ```
+ */
+export function withMode<T extends object>(proxy: T, mode: CacheMode): T {
+  const scope = (proxy as { [$withMode]?: (mode: CacheMode) => T })[$withMode];
+  if (!scope) throw new Error("withMode: argument is not a KeyvCacheProxy");
+  return scope(mode);
+}
+
+/**
+ * Get the cache control surface of a proxy created by `KeyvCacheProxy`.
+ * Paths are dotted method paths relative to the given proxy, and keys are derived
+ * exactly as the proxy derives them.
+ *
+ * @example
+ * ```ts
+ * const gh = KeyvCacheProxy({ store })(new Octokit().rest);
+ * await KeyvCacheProxy.control(gh).invalidate("repos.get", { owner, repo });
+ * await KeyvCacheProxy.control(gh.repos).invalidatePrefix("listBranches");
+ * ```
+ */
+KeyvCacheProxy.control = (proxy: object): CacheControl => {
+  const control = (proxy as { [$cache]?: CacheControl })[$cache];
+  if (!control) throw new Error("KeyvCacheProxy.control: argument is not a KeyvCacheProxy");
+  return control;
+};
+
+export type CacheControl = {
+  /** Delete the entry of one call. Resolves true if an entry was removed */
+  invalidate(path: string, ...args: any[]): Promise<boolean>;
+  /**
+   * Delete every entry under a method path, or all entries of the proxy when omitted.
+   * Requires a store that can list its keys. Resolves to the number of removed entries
+   */
+  invalidatePrefix(path?: string): Promise<number>;
+  /** Read the cached value of one call without calling the method. Undefined when missing or expired */
+  peek(path: string, ...args: any[]): Promise<any>;
+  /**
+   * Write the cached value of one call, using the TTL the proxy would apply. Peers on the bus
+   * drop their older copies; values refetched on a miss or refresh are not broadcast.
+   */
+  set(path: string, args: any[], value: any): Promise<void>;
+  /**
+   * Delete every entry carrying the tag, using the tag index kept in the store.
+   * Resolves to the number of removed entries
+   */
+  invalidateTag(tag: string): Promise<number>;
+  /** Snapshot of the per-method metrics of the whole proxy, empty when `metrics` is false */
+  getStats(): CacheStats;
+  /** Stop the refresh-ahead scheduler and wait for the refreshes it started */
+  stop(): Promise<void>;
+  /** Stop listening on the invalidation bus and stop the refresh-ahead scheduler */
+  close(): void;
+};
+
+type CacheStore = Keyv | KeyvStoreAdapter | Map<any, any>;
+
+async function* storeKeys(store: CacheStore): AsyncGenerator<string> {
+  if (store instanceof Map) {
+    yield* store.keys();
+    return;
+  }
+  if (typeof store.iterator !== "function") {
+    throw new Error("KeyvCacheProxy: the store does not support listing keys");
+  }
+  for await (const [key] of store.iterator(store.namespace)) yield key as string;
 }
 
-export type DeepAsyncMethod<T> = {
-  [K in keyof T]: T[K] extends (...args: infer A) => infer R
-    ? (...args: A) => Promise<Awaited<R>>
-    : T[K] extends object
-      ? DeepAsyncMethod<T[K]>
-      : T[K];
+/** Version of the envelope written around cached values */
+const SCHEMA_VERSION = 1;
+
+/** Metadata kept next to every cached value */
+export type CacheMeta = {
+  /** When the value was fetched (epoch ms) */
+  fetchedAt: number;
+  /** Logical expiry (epoch ms), may be earlier than the store's own TTL. Undefined when cached forever */
+  expiresAt?: number;
+  tags: string[];
+  /** Envelope format version of the library that wrote the entry */
+  schemaVersion: number;
+  /** Set when the value is a `SerializedError`, see the `cacheErrors` option */
+  error?: true;
+  /** Set when the value holds the items of an iterable result, replayed by an iterator of this kind */
+  iterable?: IterableKind;
+  /** Set when the value is the encoded form of a `Response` or binary payload of this kind */
+  codec?: CodecKind;
+  /** How long the fetch took in milliseconds, kept for `earlyExpiration` */
+  fetchMs?: number;
+};
+
+/** Envelope stored in place of the raw value */
+type CacheEntry = CacheMeta & { v: any };
+
+function timeout<R>(promise: Promise<R>, ms: number, op: string): Promise<R> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`KeyvCacheProxy: store ${op} timed out after ${ms}ms`)),
+        ms,
+      );
+    }),
+  ]).finally(() => clearTimeout(timer));
+}
+
+/** A configured TTL of 0 means no expiry, as in Keyv; cache-control's `max-age=0` does not */
+function noExpiryAtZero(ttl?: number) {
+  return ttl === 0 ? undefined : ttl;
+}
+
+function readEntry(raw: unknown): CacheEntry | undefined {
+  if (raw === undefined) return undefined;
+  if (
+    typeof raw === "object" &&
+    raw !== null &&
+    // not `"v" in raw`: JSON serialization drops an undefined `v`
+    typeof (raw as CacheEntry).schemaVersion === "number" &&
+    typeof (raw as CacheEntry).fetchedAt === "number"
+  ) {
+    return raw as CacheEntry;
+  }
+  // raw value written by versions before the envelope, never expires logically
+  return { v: raw, fetchedAt: Number.NaN, tags: [], schemaVersion: 0 };
+}
+
+/** The keys of a tag's entries, with when each entry leaves the store (epoch ms, null: never) */
+type TagIndex = Record<string, number | null>;
+
+/** A value in the form it is stored, with how to turn it back into what the method returned */
+type StoredValue = Pick<CacheEntry, "v" | "iterable" | "codec"> & {
+  /** Set for a value only one caller can consume, such as an iterator too long to cache */
+  once?: true;
+};
+
+/**
+ * The value a caller receives for an entry: a fresh iterator or `Response` where needed,
+ * else the value passed through `copy`
+ */
+function unpack({ v, iterable, codec }: StoredValue, copy: (value: any) => any) {
+  if (iterable) return replay(iterable, copy(v));
+  return codec ? decode(codec, v) : copy(v);
+}
+
+function metaOf(entry?: CacheEntry): CacheMeta | undefined {
+  if (!entry?.schemaVersion) return undefined;
+  const { v: _, ...meta } = entry;
+  return meta;
+}
+
+/**
+ * The proxied type: calls of functions and methods resolve asynchronously,
+ * and the properties of objects and callable objects are proxied in turn,
+ * except symbol properties and `then`, which is always undefined.
+ */
+export type DeepAsyncMethod<T> = (T extends (...args: infer A) => infer R
+  ? (...args: A) => Promise<Awaited<R>>
+  : unknown) & {
+  [K in keyof T]: K extends "then"
+    ? undefined
+    : K extends symbol
+      ? T[K]
+      : T[K] extends object
+        ? DeepAsyncMethod<T[K]>
+        : T[K];
 };
 
 /**
@@ -0,0 +1,37 @@
+import { describe, expect, test } from "bun:test";
+import { drain, iterableKind, replay } from "./iterables.js";
+
+describe("iterableKind", () => {
+  test("should detect async iterables and iterators only", () => {
+    async function* pages() {}
+    function* items() {}
+
+    expect(iterableKind(pages())).toBe("async");
+    expect(iterableKind({ [Symbol.asyncIterator]: () => pages() })).toBe("async");
+    expect(iterableKind(items())).toBe("sync");
+    expect(iterableKind([1, 2][Symbol.iterator]())).toBe("sync");
+    expect(iterableKind([1, 2])).toBeUndefined();
+    expect(iterableKind(new Map())).toBeUndefined();
+    expect(iterableKind("abc")).toBeUndefined();
+  });
+});
+
+describe("drain", () => {
+  test("should collect every item of a short sequence", async () => {
+    expect(await drain([1, 2, 3][Symbol.iterator](), "sync", 3)).toEqual({ items: [1, 2, 3] });
+  });
+
+  test("should stop past the cap and replay the rest", async () => {
+    async function* numbers() {
+      yield* [1, 2, 3, 4];
+    }
+    const { items, rest } = await drain(numbers(), "async", 1);
+    expect(items).toEqual([1, 2]);
+
+    const replayed: unknown[] = [];
+    for await (const item of replay("async", items, rest) as AsyncGenerator<unknown>) {
+      replayed.push(item);
+    }
+    expect(replayed).toEqual([1, 2, 3, 4]);
+  });
+});
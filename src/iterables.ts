@@ -0,0 +1,59 @@
+/** How a cached item sequence is handed back: as an async or a sync iterator */
+export type IterableKind = "async" | "sync";
+
+/**
+ * iterableKind
+ * Detect single-use iterable results: async iterables (e.g. Octokit's `paginate.iterator`)
+ * and iterators such as generators. Arrays, strings, Maps and Sets are left as plain values.
+ */
+export function iterableKind(value: unknown): IterableKind | undefined {
+  if (typeof value !== "object" || value === null) return undefined;
+  const iterable = value as Record<symbol | string, unknown>;
+  if (typeof iterable[Symbol.asyncIterator] === "function") return "async";
+  if (typeof iterable[Symbol.iterator] === "function" && typeof iterable.next === "function") {
+    return "sync";
+  }
+  return undefined;
+}
+
+/**
+ * drain
+ * Consume an iterable of the given kind up to `max` items.
+ * When the source has more, `rest` is its iterator, positioned after the returned items.
+ */
+export async function drain(
+  source: any,
+  kind: IterableKind,
+  max: number,
+): Promise<{ items: unknown[]; rest?: Iterator<unknown> | AsyncIterator<unknown> }> {
+  const iterator: Iterator<unknown> | AsyncIterator<unknown> =
+    kind === "async" ? source[Symbol.asyncIterator]() : source[Symbol.iterator]();
+  const items: unknown[] = [];
+  while (items.length <= max) {
+    const { done, value } = await iterator.next();
+    if (done) return { items };
+    items.push(value);
+  }
+  return { items, rest: iterator };
+}
+
+/**
+ * replay
+ * A fresh iterator of the given kind yielding `items`, then whatever is left in `rest`.
+ */
+export function replay(
+  kind: IterableKind,
+  items: unknown[],
+  rest?: Iterator<unknown> | AsyncIterator<unknown>,
+): Generator<unknown> | AsyncGenerator<unknown> {
+  if (kind === "sync") {
+    return (function* () {
+      yield* items;
+      if (rest) yield* { [Symbol.iterator]: () => rest as Iterator<unknown> };
+    })();
+  }
+  return (async function* () {
+    yield* items;
+    if (rest) yield* { [Symbol.asyncIterator]: () => rest as AsyncIterator<unknown> };
+  })();
+}
@@ -0,0 +1,66 @@
+import { describe, expect, test } from "bun:test";
+import { hashKey, stableStringify } from "./keys.js";
+
+describe("stableStringify", () => {
+  test("should match JSON.stringify for plain JSON values", () => {
+    const values = [1, "text", true, null, [1, "a", null], { a: 1, nested: { b: [2] } }];
+    for (const value of values) {
+      expect(stableStringify(value)).toBe(JSON.stringify(value));
+    }
+  });
+
+  test("should sort object keys", () => {
+    expect(stableStringify({ a: 1, b: 2 })).toBe(stableStringify({ b: 2, a: 1 }));
+    expect(stableStringify({ z: { d: 1, c: 2 }, y: 0 })).toBe('{"y":0,"z":{"c":2,"d":1}}');
+  });
+
+  test("should keep undefined and functions distinct from null", () => {
+    expect(stableStringify(undefined)).toBe("undefined");
+    expect(stableStringify([undefined, null])).toBe("[undefined,null]");
+    expect(stableStringify(function onProgress() {})).toBe("[Function onProgress]");
+    // undefined object fields are omitted, like JSON
+    expect(stableStringify({ a: undefined, b: 1 })).toBe('{"b":1}');
+  });
+
+  test("should serialize non-JSON types", () => {
+    expect(stableStringify(new Date("2024-01-01T00:00:00.000Z"))).toBe(
+      "Date(2024-01-01T00:00:00.000Z)",
+    );
+    expect(stableStringify(12n)).toBe("12n");
+    expect(stableStringify(Number.NaN)).toBe("NaN");
+    expect(stableStringify(/a+/g)).toBe("/a+/g");
+    expect(stableStringify(new Uint8Array([1, 2]))).toBe("Uint8Array(1,2)");
+    expect(stableStringify(Symbol("s"))).toBe("Symbol(s)");
+  });
+
+  test("should serialize Map and Set independent of insertion order", () => {
+    expect(stableStringify(new Set([2, 1]))).toBe("Set(1,2)");
+    expect(
+      stableStringify(
+        new Map([
+          ["b", 2],
+          ["a", 1],
+        ]),
+      ),
+    ).toBe('Map(["a",1],["b",2])');
+  });
+
+  test("should detect cycles without throwing", () => {
+    const obj: Record<string, unknown> = { a: 1 };
+    obj.self = obj;
+    expect(stableStringify(obj)).toBe('{"a":1,"self":[Circular]}');
+  });
+
+  test("should not mark repeated non-cyclic references as circular", () => {
+    const shared = { x: 1 };
+    expect(stableStringify([shared, shared])).toBe('[{"x":1},{"x":1}]');
+  });
+});
+
+describe("hashKey", () => {
+  test("should return a fixed-length digest", () => {
+    expect(hashKey("short")).toHaveLength(64);
+    expect(hashKey("x".repeat(10000))).toHaveLength(64);
+    expect(hashKey("a")).not.toBe(hashKey("b"));
+  });
+});
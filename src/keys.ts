@@ -0,0 +1,83 @@
+import { createHash } from "node:crypto";
+
+/**
+ * stableStringify
+ * Deterministic serializer used to build cache keys from method arguments.
+ * Plain JSON values serialize exactly like `JSON.stringify`, except that object keys are sorted,
+ * so `{a:1,b:2}` and `{b:2,a:1}` produce the same key.
+ *
+ * Values JSON can't represent get a readable, distinct form instead of collapsing or throwing:
+ * `undefined`, `NaN`, `12n`, `Date(2024-01-01T00:00:00.000Z)`, `Map([k,v])`, `Set(a,b)`,
+ * `/re/g`, `[Function name]`, `Symbol(desc)`, and `[Circular]` for cyclic references.
+ *
+ * @example
+ * ```ts
+ * stableStringify({ b: 2, a: new Set([2, 1]) }); // {"a":Set(1,2),"b":2}
+ * ```
+ */
+export function stableStringify(value: unknown): string {
+  return serialize(value, new Set());
+}
+
+function serialize(value: unknown, ancestors: Set<object>): string {
+  switch (typeof value) {
+    case "undefined":
+      return "undefined";
+    case "bigint":
+      return `${value}n`;
+    case "symbol":
+      return value.toString();
+    case "function":
+      return `[Function ${value.name || "anonymous"}]`;
+    case "number":
+      return Number.isFinite(value) ? JSON.stringify(value) : String(value);
+    case "string":
+    case "boolean":
+      return JSON.stringify(value);
+  }
+  if (value === null) return "null";
+
+  const obj = value as object;
+  if (ancestors.has(obj)) return "[Circular]";
+  ancestors.add(obj);
+  try {
+    if (obj instanceof Date) {
+      return `Date(${Number.isNaN(obj.getTime()) ? "Invalid" : obj.toISOString()})`;
+    }
+    if (obj instanceof RegExp) return String(obj);
+    if (Array.isArray(obj)) {
+      return `[${obj.map((item) => serialize(item, ancestors)).join(",")}]`;
+    }
+    if (obj instanceof Map) {
+      const entries = [...obj].map(
+        ([k, v]) => `[${serialize(k, ancestors)},${serialize(v, ancestors)}]`,
+      );
+      return `Map(${entries.sort().join(",")})`;
+    }
+    if (obj instanceof Set) {
+      const items = [...obj].map((item) => serialize(item, ancestors));
+      return `Set(${items.sort().join(",")})`;
+    }
+    if (ArrayBuffer.isView(obj)) {
+      const bytes = new Uint8Array(obj.buffer, obj.byteOffset, obj.byteLength);
+      return `${obj.constructor.name}(${bytes.join(",")})`;
+    }
+    if (typeof (obj as { toJSON?: unknown }).toJSON === "function") {
+      return serialize((obj as { toJSON: () => unknown }).toJSON(), ancestors);
+    }
+    const fields = Object.keys(obj)
+      .sort()
+      .filter((k) => (obj as Record<string, unknown>)[k] !== undefined)
+      .map(
+        (k) => `${JSON.stringify(k)}:${serialize((obj as Record<string, unknown>)[k], ancestors)}`,
+      );
+    return `{${fields.join(",")}}`;
+  } finally {
+    ancestors.delete(obj);
+  }
+}
+
+/** Fixed-length digest of a key fragment */
+export function hashKey(input: string): string {
+  return createHash("sha256").update(input).digest("hex");
+}
@@ -0,0 +1,83 @@
+import { describe, expect, test } from "bun:test";
+import { createLimiter, rateLimitHeaders } from "./limiter.js";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("createLimiter", () => {
+  test("should cap concurrent calls", async () => {
+    const limiter = createLimiter({ maxConcurrent: 2 });
+    let active = 0;
+    let peak = 0;
+    const call = async () => {
+      peak = Math.max(peak, ++active);
+      await sleep(5);
+      active--;
+    };
+
+    await Promise.all(Array.from({ length: 6 }, () => limiter.run(call)));
+    expect(peak).toBe(2);
+  });
+
+  test("should spread calls beyond the burst over time", async () => {
+    const limiter = createLimiter({ ratePerSecond: 100, burst: 2 });
+    const start = Date.now();
+    const times: number[] = [];
+
+    await Promise.all(
+      Array.from({ length: 4 }, () => limiter.run(async () => times.push(Date.now() - start))),
+    );
+    expect(times[1]).toBeLessThan(10);
+    expect(times[3]).toBeGreaterThanOrEqual(15);
+  });
+
+  test("should serve queued calls by priority", async () => {
+    const limiter = createLimiter({ maxConcurrent: 1 });
+    const order: string[] = [];
+    const call = (name: string) => async () => {
+      order.push(name);
+      await sleep(1);
+    };
+
+    await Promise.all([
+      limiter.run(call("first")),
+      limiter.run(call("low"), -1),
+      limiter.run(call("normal")),
+      limiter.run(call("high"), 5),
+    ]);
+    expect(order).toEqual(["first", "high", "normal", "low"]);
+  });
+
+  test("should reject calls waiting longer than the timeout", async () => {
+    const limiter = createLimiter({ maxConcurrent: 1, timeout: 10 });
+    const slow = limiter.run(() => sleep(30));
+
+    await expect(limiter.run(async () => "late")).rejects.toThrow("waited more than 10ms");
+    await slow;
+    expect(await limiter.run(async () => "ok")).toBe("ok");
+  });
+
+  test("should wait for the reset once the budget is exhausted", async () => {
+    const limiter = createLimiter();
+    limiter.budget({ remaining: 0, resetAt: Date.now() + 20 });
+    const start = Date.now();
+
+    await limiter.run(async () => {});
+    expect(Date.now() - start).toBeGreaterThanOrEqual(15);
+  });
+});
+
+describe("rateLimitHeaders", () => {
+  test("should read GitHub rate limit headers from responses and errors", () => {
+    const headers = { "x-ratelimit-remaining": "0", "x-ratelimit-reset": "1700000000" };
+
+    expect(rateLimitHeaders({ status: 200, headers })).toEqual({
+      remaining: 0,
+      resetAt: 1700000000000,
+    });
+    expect(rateLimitHeaders({ status: 403, response: { status: 403, headers } })).toEqual({
+      remaining: 0,
+      resetAt: 1700000000000,
+    });
+    expect(rateLimitHeaders({ status: 200, headers: {} })).toBeUndefined();
+  });
+});
@@ -0,0 +1,136 @@
+import { headerOf } from "./http.js";
+
+export type LimitOptions = {
+  /** Upstream calls running at once. Default: unbounded */
+  maxConcurrent?: number;
+  /** Token bucket refill rate, in calls per second. Default: unbounded */
+  ratePerSecond?: number;
+  /** Token bucket size, the calls allowed in a burst. Default: `ratePerSecond`, at least 1 */
+  burst?: number;
+  /** Longest a call may wait for a slot in milliseconds before it throws. Default: no limit */
+  timeout?: number;
+};
+
+/** The upstream's own view of the remaining budget, e.g. from `x-ratelimit-*` headers */
+export type RateBudget = {
+  /** Calls left in the current window */
+  remaining: number;
+  /** When the window resets (epoch ms); with nothing remaining, calls wait until then */
+  resetAt?: number;
+};
+
+type Waiter = {
+  priority: number;
+  resolve: (release: () => void) => void;
+  reject: (error: Error) => void;
+  timer?: ReturnType<typeof setTimeout>;
+};
+
+/**
+ * createLimiter
+ * Concurrency cap plus token bucket, queueing calls over the limit by priority (higher first,
+ * then in arrival order).
+ */
+export function createLimiter({
+  maxConcurrent = Infinity,
+  ratePerSecond = Infinity,
+  burst = Math.max(1, ratePerSecond),
+  timeout,
+}: LimitOptions = {}) {
+  const queue: Waiter[] = [];
+  let active = 0;
+  let tokens = burst;
+  let refilledAt = Date.now();
+  let blockedUntil = 0;
+  let wake: ReturnType<typeof setTimeout> | undefined;
+
+  const refill = (now: number) => {
+    tokens = Math.min(burst, tokens + ((now - refilledAt) / 1000) * ratePerSecond);
+    refilledAt = now;
+  };
+  const sleepUntil = (at: number) => {
+    if (wake) return;
+    wake = setTimeout(
+      () => {
+        wake = undefined;
+        pump();
+      },
+      Math.max(0, at - Date.now()),
+    );
+  };
+  const release = () => {
+    active--;
+    pump();
+  };
+  const pump = () => {
+    while (queue.length && active < maxConcurrent) {
+      const now = Date.now();
+      if (now < blockedUntil) return sleepUntil(blockedUntil);
+      if (ratePerSecond !== Infinity) {
+        refill(now);
+        if (tokens < 1) return sleepUntil(now + ((1 - tokens) / ratePerSecond) * 1000);
+        tokens--;
+      }
+      const waiter = queue.shift() as Waiter;
+      clearTimeout(waiter.timer);
+      active++;
+      waiter.resolve(release);
+    }
+  };
+
+  const acquire = (priority = 0) =>
+    new Promise<() => void>((resolve, reject) => {
+      const waiter: Waiter = { priority, resolve, reject };
+      const index = queue.findIndex((queued) => queued.priority < priority);
+      queue.splice(index === -1 ? queue.length : index, 0, waiter);
+      if (timeout !== undefined) {
+        waiter.timer = setTimeout(() => {
+          queue.splice(queue.indexOf(waiter), 1);
+          reject(
+            new Error(`KeyvCacheProxy: waited more than ${timeout}ms for an upstream call slot`),
+          );
+        }, timeout);
+      }
+      pump();
+    });
+
+  return {
+    /** Run `call` once a slot is free */
+    async run<R>(call: () => Promise<R>, priority?: number): Promise<R> {
+      const done = await acquire(priority);
+      try {
+        return await call();
+      } finally {
+        done();
+      }
+    },
+    /** Align the bucket with the upstream's remaining budget */
+    budget({ remaining, resetAt }: RateBudget) {
+      if (ratePerSecond !== Infinity) {
+        refill(Date.now());
+        tokens = Math.min(tokens, remaining);
+      }
+      if (remaining <= 0 && resetAt !== undefined) blockedUntil = Math.max(blockedUntil, resetAt);
+    },
+  };
+}
+
+export type Limiter = ReturnType<typeof createLimiter>;
+
+/**
+ * rateLimitHeaders
+ * Read `x-ratelimit-remaining` and `x-ratelimit-reset` (epoch seconds), as sent by GitHub,
+ * from a response or from the `response` of a thrown error.
+ *
+ * @example
+ * ```ts
+ * KeyvCacheProxy({ store, limit: { maxConcurrent: 4 }, budget: rateLimitHeaders })(octokit.rest);
+ * ```
+ */
+export function rateLimitHeaders(outcome: unknown): RateBudget | undefined {
+  const response = (outcome as { response?: unknown } | null)?.response ?? outcome;
+  const remaining = Number(headerOf(response, "x-ratelimit-remaining") ?? Number.NaN);
+  if (Number.isNaN(remaining)) return undefined;
+  const reset = Number(headerOf(response, "x-ratelimit-reset") ?? Number.NaN);
+  return { remaining, resetAt: Number.isNaN(reset) ? undefined : reset * 1000 };
+}
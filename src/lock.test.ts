@@ -0,0 +1,50 @@
+import { describe, expect, test } from "bun:test";
+import { createLock } from "./lock.js";
+
+describe("createLock", () => {
+  test("should grant the lock to one holder until it is released", async () => {
+    const store = new Map();
+    const lock = createLock(store);
+
+    const token = await lock.acquire("k");
+    expect(token).toBeString();
+    expect(await lock.acquire("k")).toBeUndefined();
+    await lock.release("k", "someone else");
+    expect(await lock.acquire("k")).toBeUndefined();
+    await lock.release("k", token as string);
+    expect(await lock.acquire("k")).toBeString();
+  });
+
+  test("should expire locks even in stores ignoring TTLs", async () => {
+    const lock = createLock(new Map(), { ttl: 10 });
+    await lock.acquire("k");
+    await new Promise((resolve) => setTimeout(resolve, 15));
+
+    expect(await lock.acquire("k")).toBeString();
+  });
+
+  test("should wait until the value appears or the lock goes", async () => {
+    const store = new Map();
+    const lock = createLock(store, { interval: 5 });
+    const token = (await lock.acquire("k")) as string;
+    let value: string | undefined;
+    setTimeout(() => {
+      value = "done";
+    }, 12);
+
+    expect(await lock.waitFor("k", async () => value)).toBe("done");
+
+    value = undefined;
+    setTimeout(() => lock.release("k", token), 12);
+    expect(await lock.waitFor("k", async () => value)).toBeUndefined();
+  });
+
+  test("should give up after the maximum wait", async () => {
+    const lock = createLock(new Map(), { wait: 20, interval: 5 });
+    await lock.acquire("k");
+    const start = Date.now();
+
+    expect(await lock.waitFor("k", async () => undefined)).toBeUndefined();
+    expect(Date.now() - start).toBeLessThan(100);
+  });
+});
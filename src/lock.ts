@@ -0,0 +1,67 @@
+import { randomUUID } from "node:crypto";
+
+export type LockOptions = {
+  /** How long a lock is held at most, in milliseconds, should its holder never release it. Default: 10000 */
+  ttl?: number;
+  /** Longest a call waits on another process' lock before fetching itself, in milliseconds. Default: `ttl` */
+  wait?: number;
+  /** First delay between polls in milliseconds, doubled after each poll up to 1s. Default: 50 */
+  interval?: number;
+};
+
+/** The part of a Keyv store, adapter or Map the lock needs */
+type LockStore = {
+  get(key: string): any;
+  set(key: string, value: any, ttl?: number): any;
+  delete(key: string): any;
+};
+
+type LockValue = { token: string; expiresAt: number };
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * createLock
+ * Best-effort lock kept in the cache store itself, for stores without locking primitives.
+ * A lock is taken by writing a random token, then reading it back: two processes racing on
+ * the same key can both win, which only costs a duplicate fetch. The expiry is stored with the
+ * token, so locks also expire in stores that ignore TTLs.
+ */
+export function createLock(
+  store: LockStore,
+  { ttl = 10000, wait = ttl, interval = 50 }: LockOptions = {},
+) {
+  const holder = async (key: string): Promise<LockValue | undefined> => {
+    const lock: LockValue | undefined = await store.get(key);
+    return lock && Date.now() < lock.expiresAt ? lock : undefined;
+  };
+
+  return {
+    /** Take the lock; resolves its token, or undefined when another process holds it */
+    async acquire(key: string): Promise<string | undefined> {
+      if (await holder(key)) return undefined;
+      const token = randomUUID();
+      await store.set(key, { token, expiresAt: Date.now() + ttl } satisfies LockValue, ttl);
+      return (await holder(key))?.token === token ? token : undefined;
+    },
+    /** Release the lock, unless it expired and was taken by another process since */
+    async release(key: string, token: string) {
+      if ((await holder(key))?.token === token) await store.delete(key);
+    },
+    /**
+     * Poll `check` with backoff until it resolves a value, the lock is released or expires,
+     * or `wait` has passed. Resolves undefined unless `check` found a value.
+     */
+    async waitFor<T>(key: string, check: () => Promise<T | undefined>): Promise<T | undefined> {
+      const deadline = Date.now() + wait;
+      for (let delay = interval; Date.now() < deadline; delay = Math.min(delay * 2, 1000)) {
+        await sleep(Math.min(delay, deadline - Date.now()));
+        // read the lock first: a holder finishing in between has written the value by then
+        const held = await holder(key);
+        const found = await check();
+        if (found !== undefined || !held) return found;
+      }
+      return undefined;
+    },
+  };
+}
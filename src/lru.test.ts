@@ -0,0 +1,57 @@
+import { describe, expect, test } from "bun:test";
+import { createLru } from "./lru.js";
+
+describe("createLru", () => {
+  test("should evict the least recently used entry beyond max", () => {
+    const lru = createLru<number>({ max: 2 });
+    lru.set("a", 1);
+    lru.set("b", 2);
+    lru.get("a"); // a is now most recent
+    lru.set("c", 3);
+
+    expect(lru.get("a")).toBe(1);
+    expect(lru.get("b")).toBeUndefined();
+    expect(lru.get("c")).toBe(3);
+    expect(lru.size).toBe(2);
+  });
+
+  test("should evict by total byte size", () => {
+    const lru = createLru<string>({ maxBytes: 20 });
+    lru.set("a", "x".repeat(8)); // 10 bytes as JSON
+    lru.set("b", "y".repeat(8));
+    lru.set("c", "z".repeat(8));
+
+    expect(lru.get("a")).toBeUndefined();
+    expect(lru.size).toBe(2);
+
+    lru.set("huge", "h".repeat(100)); // larger than the whole budget, not stored
+    expect(lru.get("huge")).toBeUndefined();
+    expect(lru.size).toBe(2);
+  });
+
+  test("should expire entries at the earlier of its TTL and the given expiry", async () => {
+    const lru = createLru<number>({ ttl: 30 });
+    lru.set("own", 1);
+    lru.set("given", 2, Date.now() + 10);
+    lru.set("later", 3, Date.now() + 1000);
+
+    await new Promise((resolve) => setTimeout(resolve, 15));
+    expect(lru.get("given")).toBeUndefined();
+    expect(lru.get("own")).toBe(1);
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(lru.get("own")).toBeUndefined();
+    expect(lru.get("later")).toBeUndefined();
+  });
+
+  test("should delete matching entries", () => {
+    const lru = createLru<{ tags: string[] }>();
+    lru.set("a", { tags: ["x"] });
+    lru.set("b", { tags: ["y"] });
+
+    expect(lru.deleteWhere((_key, value) => value.tags.includes("x"))).toBe(1);
+    expect(lru.get("a")).toBeUndefined();
+    expect(lru.delete("b")).toBe(true);
+    expect(lru.size).toBe(0);
+  });
+});
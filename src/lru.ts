@@ -0,0 +1,83 @@
+export type LruOptions = {
+  /** Maximum number of entries. Default: 1000 */
+  max?: number;
+  /** Maximum total size of entries in bytes, estimated from their JSON form. Default: unbounded */
+  maxBytes?: number;
+  /** Time-to-live of each entry in milliseconds. Default: unbounded */
+  ttl?: number;
+};
+
+/**
+ * createLru
+ * A bounded in-process least-recently-used map with per-entry expiry,
+ * used as the L1 tier in front of the Keyv store.
+ */
+export function createLru<V>({ max = 1000, maxBytes = Infinity, ttl }: LruOptions = {}) {
+  // Map iteration order doubles as recency order: oldest first
+  const entries = new Map<string, { value: V; expires: number; bytes: number }>();
+  let totalBytes = 0;
+
+  const remove = (key: string) => {
+    const entry = entries.get(key);
+    if (!entry) return false;
+    totalBytes -= entry.bytes;
+    return entries.delete(key);
+  };
+
+  return {
+    get(key: string): V | undefined {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      entries.delete(key);
+      if (Date.now() >= entry.expires) {
+        totalBytes -= entry.bytes;
+        return undefined;
+      }
+      entries.set(key, entry);
+      return entry.value;
+    },
+    /** Store a value, expiring at the earlier of the LRU's own TTL and `expires` (epoch ms) */
+    set(key: string, value: V, expires = Infinity) {
+      remove(key);
+      const bytes = maxBytes === Infinity ? 0 : sizeOf(value);
+      if (bytes > maxBytes) return;
+      entries.set(key, {
+        value,
+        expires: Math.min(expires, ttl === undefined ? Infinity : Date.now() + ttl),
+        bytes,
+      });
+      totalBytes += bytes;
+      for (const oldest of entries.keys()) {
+        if (entries.size <= max && totalBytes <= maxBytes) break;
+        remove(oldest);
+      }
+    },
+    delete: remove,
+    /** Delete every entry whose key or value matches */
+    deleteWhere(match: (key: string, value: V) => boolean) {
+      let removed = 0;
+      for (const [key, entry] of [...entries]) {
+        if (match(key, entry.value) && remove(key)) removed++;
+      }
+      return removed;
+    },
+    clear() {
+      entries.clear();
+      totalBytes = 0;
+    },
+    get size() {
+      return entries.size;
+    },
+  };
+}
+
+export type Lru<V> = ReturnType<typeof createLru<V>>;
+
+function sizeOf(value: unknown) {
+  try {
+    return Buffer.byteLength(JSON.stringify(value) ?? "");
+  } catch {
+    // not JSON-serializable (cycles, BigInt): count it as free rather than refusing it
+    return 0;
+  }
+}
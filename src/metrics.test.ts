@@ -0,0 +1,67 @@
+import { describe, expect, test } from "bun:test";
+import { createMetrics, toPrometheus } from "./metrics.js";
+
+describe("createMetrics", () => {
+  test("should count per method path", () => {
+    const metrics = createMetrics();
+    metrics.count("repos.get", "hits");
+    metrics.count("repos.get", "hits");
+    metrics.count("repos.get", "misses");
+    metrics.count("users.get", "upstreamErrors");
+
+    const stats = metrics.snapshot();
+    expect(stats["repos.get"]).toMatchObject({ hits: 2, misses: 1, stale: 0 });
+    expect(stats["users.get"]).toMatchObject({ hits: 0, upstreamErrors: 1 });
+  });
+
+  test("should fill cumulative histogram buckets", () => {
+    const metrics = createMetrics([10, 100]);
+    metrics.observe("get", "upstreamLatency", 5);
+    metrics.observe("get", "upstreamLatency", 50);
+    metrics.observe("get", "upstreamLatency", 500);
+
+    expect(metrics.snapshot().get?.upstreamLatency).toEqual({
+      bounds: [10, 100],
+      counts: [1, 2],
+      sum: 555,
+      count: 3,
+    });
+  });
+
+  test("should return snapshots detached from live counters", () => {
+    const metrics = createMetrics();
+    metrics.count("get", "hits");
+    const before = metrics.snapshot();
+    metrics.count("get", "hits");
+    expect(before.get?.hits).toBe(1);
+  });
+});
+
+describe("toPrometheus", () => {
+  test("should render counters and histograms in the exposition format", () => {
+    const metrics = createMetrics([10]);
+    metrics.count("repos.get", "hits");
+    metrics.observe("repos.get", "storeLatency", 2);
+
+    const text = toPrometheus(metrics.snapshot());
+    expect(text).toContain("# TYPE keyv_cache_proxy_hits_total counter");
+    expect(text).toContain('keyv_cache_proxy_hits_total{path="repos.get"} 1');
+    expect(text).toContain("# TYPE keyv_cache_proxy_store_duration_seconds histogram");
+    expect(text).toContain(
+      'keyv_cache_proxy_store_duration_seconds_bucket{path="repos.get",le="0.01"} 1',
+    );
+    expect(text).toContain(
+      'keyv_cache_proxy_store_duration_seconds_bucket{path="repos.get",le="+Inf"} 1',
+    );
+    expect(text).toContain('keyv_cache_proxy_store_duration_seconds_sum{path="repos.get"} 0.002');
+    expect(text.endsWith("\n")).toBe(true);
+  });
+
+  test("should escape label values and honour the namespace", () => {
+    const metrics = createMetrics();
+    metrics.count('odd"path', "misses");
+    expect(toPrometheus(metrics.snapshot(), { namespace: "gh" })).toContain(
+      'gh_misses_total{path="odd\\"path"} 1',
+    );
+  });
+});
@@ -0,0 +1,133 @@
+/** Latency histogram, bucket counts are cumulative like Prometheus' `le` buckets */
+export type HistogramSnapshot = {
+  /** Upper bounds of the buckets in milliseconds */
+  bounds: number[];
+  /** Observations less than or equal to each bound */
+  counts: number[];
+  /** Sum of all observations in milliseconds */
+  sum: number;
+  count: number;
+};
+
+export type MethodStats = {
+  /** Calls served from the cache without calling the method */
+  hits: number;
+  /** Calls that went to the wrapped method */
+  misses: number;
+  /** Calls served an expired value (stale-while-revalidate or stale-if-error) */
+  stale: number;
+  /** Wrapped method calls that threw */
+  upstreamErrors: number;
+  /** Store reads and writes that threw */
+  storeErrors: number;
+  upstreamLatency: HistogramSnapshot;
+  storeLatency: HistogramSnapshot;
+};
+
+/** Stats by dotted method path */
+export type CacheStats = Record<string, MethodStats>;
+
+const DEFAULT_BOUNDS = [1, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+type Counter = "hits" | "misses" | "stale" | "upstreamErrors" | "storeErrors";
+
+/**
+ * createMetrics
+ * In-memory per-method counters and latency histograms collected by the proxy.
+ */
+export function createMetrics(bounds: number[] = DEFAULT_BOUNDS) {
+  const byPath = new Map<string, MethodStats>();
+  const histogram = (): HistogramSnapshot => ({
+    bounds,
+    counts: bounds.map(() => 0),
+    sum: 0,
+    count: 0,
+  });
+  const statsOf = (path: string) => {
+    let stats = byPath.get(path);
+    if (!stats) {
+      stats = {
+        hits: 0,
+        misses: 0,
+        stale: 0,
+        upstreamErrors: 0,
+        storeErrors: 0,
+        upstreamLatency: histogram(),
+        storeLatency: histogram(),
+      };
+      byPath.set(path, stats);
+    }
+    return stats;
+  };
+  const observe = (h: HistogramSnapshot, ms: number) => {
+    h.bounds.forEach((bound, i) => {
+      if (ms <= bound) h.counts[i] = (h.counts[i] ?? 0) + 1;
+    });
+    h.sum += ms;
+    h.count++;
+  };
+
+  return {
+    count(path: string, counter: Counter) {
+      statsOf(path)[counter]++;
+    },
+    observe(path: string, latency: "upstreamLatency" | "storeLatency", ms: number) {
+      observe(statsOf(path)[latency], ms);
+    },
+    /** Deep copy of the current stats */
+    snapshot(): CacheStats {
+      return structuredClone(Object.fromEntries(byPath));
+    },
+  };
+}
+
+/**
+ * toPrometheus
+ * Render stats in the Prometheus text exposition format.
+ * Counters are labelled by method `path`, latencies are exported in seconds.
+ *
+ * @example
+ * ```ts
+ * app.get("/metrics", async () => toPrometheus(KeyvCacheProxy.control(gh).getStats()));
+ * ```
+ */
+export function toPrometheus(stats: CacheStats, { namespace = "keyv_cache_proxy" } = {}): string {
+  const entries = Object.entries(stats);
+  const lines: string[] = [];
+  const label = (path: string, extra = "") =>
+    `{path="${path.replace(/["\\\n]/g, (c) => (c === "\n" ? "\\n" : `\\${c}`))}"${extra}}`;
+
+  const counters: [Counter, string, string][] = [
+    ["hits", "hits_total", "Calls served from the cache"],
+    ["misses", "misses_total", "Calls that went to the wrapped method"],
+    ["stale", "stale_total", "Calls served an expired value"],
+    ["upstreamErrors", "upstream_errors_total", "Wrapped method calls that threw"],
+    ["storeErrors", "store_errors_total", "Store operations that threw"],
+  ];
+  for (const [field, name, help] of counters) {
+    lines.push(`# HELP ${namespace}_${name} ${help}`, `# TYPE ${namespace}_${name} counter`);
+    for (const [path, s] of entries) lines.push(`${namespace}_${name}${label(path)} ${s[field]}`);
+  }
+
+  const histograms: ["upstreamLatency" | "storeLatency", string, string][] = [
+    ["upstreamLatency", "upstream_duration_seconds", "Latency of wrapped method calls"],
+    ["storeLatency", "store_duration_seconds", "Latency of store operations"],
+  ];
+  for (const [field, name, help] of histograms) {
+    lines.push(`# HELP ${namespace}_${name} ${help}`, `# TYPE ${namespace}_${name} histogram`);
+    for (const [path, s] of entries) {
+      const h = s[field];
+      h.bounds.forEach((bound, i) => {
+        lines.push(
+          `${namespace}_${name}_bucket${label(path, `,le="${bound / 1000}"`)} ${h.counts[i]}`,
+        );
+      });
+      lines.push(
+        `${namespace}_${name}_bucket${label(path, ',le="+Inf"')} ${h.count}`,
+        `${namespace}_${name}_sum${label(path)} ${h.sum / 1000}`,
+        `${namespace}_${name}_count${label(path)} ${h.count}`,
+      );
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
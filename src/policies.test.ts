@@ -0,0 +1,56 @@
+import { describe, expect, test } from "bun:test";
+import { createMutationResolver, createPolicyResolver } from "./policies.js";
+
+describe("createPolicyResolver", () => {
+  test("should match exact dotted paths", () => {
+    const resolve = createPolicyResolver({ "repos.get": { ttl: 1000 } });
+    expect(resolve("repos.get")).toEqual({ ttl: 1000 });
+    expect(resolve("repos.getBranch")).toEqual({});
+  });
+
+  test("should match one segment with * and many with **", () => {
+    const resolve = createPolicyResolver({ "issues.*": { ttl: 1 }, "**.list": { ttl: 2 } });
+    expect(resolve("issues.get")).toEqual({ ttl: 1 });
+    expect(resolve("issues.comments.get")).toEqual({});
+    expect(resolve("issues.comments.list")).toEqual({ ttl: 2 });
+  });
+
+  test("should disable caching for negated patterns and false values", () => {
+    const resolve = createPolicyResolver({ "!*.create": true, "git.*": false });
+    expect(resolve("issues.create")).toEqual({ cache: false });
+    expect(resolve("git.getRef")).toEqual({ cache: false });
+    expect(resolve("issues.get")).toEqual({});
+  });
+
+  test("should merge matching policies in declaration order", () => {
+    const resolve = createPolicyResolver({
+      "**": { ttl: 1 },
+      "repos.*": { ttl: 2, cache: true },
+      "!repos.delete": {},
+    });
+    expect(resolve("repos.get")).toEqual({ ttl: 2, cache: true });
+    expect(resolve("repos.delete")).toEqual({ ttl: 2, cache: false });
+    expect(resolve("users.get")).toEqual({ ttl: 1 });
+  });
+});
+
+describe("createMutationResolver", () => {
+  test("should collect rules from every matching pattern", () => {
+    const resolve = createMutationResolver({
+      "issues.update": [{ path: "issues.get" }, "issues.listForRepo"],
+      "*.update": { tag: "updated" },
+    });
+    expect(resolve("issues.update")).toEqual([
+      { path: "issues.get" },
+      "issues.listForRepo",
+      { tag: "updated" },
+    ]);
+    expect(resolve("repos.update")).toEqual([{ tag: "updated" }]);
+    expect(resolve("issues.get")).toBeUndefined();
+  });
+
+  test("should mark paths with an empty rule list as mutations", () => {
+    const resolve = createMutationResolver({ "*.create": [] });
+    expect(resolve("issues.create")).toEqual([]);
+  });
+});
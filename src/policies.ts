@@ -0,0 +1,128 @@
+import type { ArgsTransform } from "./args.js";
+import type { LimitOptions } from "./limiter.js";
+
+/**
+ * - `default`: read the cache, call through on a miss and cache the result
+ * - `cache-only`: read the cache, throw on a miss instead of calling through
+ * - `refresh`: skip the read, call through and cache the result
+ * - `bypass`: call through without reading or writing the cache
+ */
+export type CacheMode = "default" | "cache-only" | "refresh" | "bypass";
+
+/** Per-method overrides, selected by dotted method path */
+export type CachePolicy = {
+  /** Time-to-live for entries of matching methods in milliseconds */
+  ttl?: number;
+  /** Set to false to call matching methods straight through without reading or writing the cache */
+  cache?: boolean;
+  /** Key derivation for matching methods, see the `keyFn` option */
+  keyFn?: (path: string, args: any[]) => string;
+  /** Pick, omit or redact arguments before they make up the key, e.g. `{ omit: ["request_id"] }` */
+  keyArgs?: ArgsTransform;
+  /** Cache mode of matching methods, overridden per call by `withMode` */
+  mode?: CacheMode;
+  /** Concurrency and rate limit of the misses of each matching method, on top of `limit` */
+  limit?: LimitOptions;
+  /** Queue priority of throttled calls of matching methods, higher first. Default: 0 */
+  priority?: number;
+  /** Tags attached to entries of matching methods, see `invalidateTag` */
+  tags?: string[] | ((args: any[], result: any) => string[]);
+};
+
+/**
+ * Policies keyed by dotted method path or glob.
+ * `*` matches one path segment, `**` matches any number of segments,
+ * and a leading `!` disables caching for matching methods.
+ * A value of `false` is shorthand for `{ cache: false }`.
+ *
+ * @example
+ * ```ts
+ * { "repos.get": { ttl: 3600e3 }, "issues.*": { ttl: 60e3 }, "!*.create": true }
+ * ```
+ */
+export type CachePolicies = Record<string, CachePolicy | boolean>;
+
+/**
+ * Build a resolver merging every policy whose pattern matches a method path.
+ * Matching policies are applied in declaration order, so later entries override earlier ones.
+ */
+export function createPolicyResolver(policies: CachePolicies = {}) {
+  const rules = Object.entries(policies).map(([pattern, value]) => {
+    const negated = pattern.startsWith("!");
+    const policy: CachePolicy = typeof value === "boolean" ? { cache: value } : value;
+    return {
+      test: globToRegExp(negated ? pattern.slice(1) : pattern),
+      policy: negated ? { ...policy, cache: false } : policy,
+    };
+  });
+  const resolved = new Map<string, CachePolicy>();
+
+  return (path: string): CachePolicy => {
+    let policy = resolved.get(path);
+    if (!policy) {
+      policy = Object.assign(
+        {},
+        ...rules.filter((rule) => rule.test.test(path)).map((rule) => rule.policy),
+      ) as CachePolicy;
+      resolved.set(path, policy);
+    }
+    return policy;
+  };
+}
+
+/**
+ * What a successful mutating call invalidates:
+ * - a dotted read path drops every cached call under it
+ * - `{ path, args }` drops one call, with `args` projecting the mutation's arguments
+ *   (and result) onto the read method's arguments
+ * - `{ tag }` drops every entry carrying the tag
+ */
+export type InvalidationRule =
+  | string
+  | { path: string; args?: (args: any[], result: any) => any[] }
+  | { tag: string | ((args: any[], result: any) => string | string[]) };
+
+/**
+ * Invalidation rules keyed by mutating method path or glob.
+ *
+ * @example
+ * ```ts
+ * {
+ *   "issues.update": [
+ *     { path: "issues.get", args: ([{ owner, repo, issue_number }]) => [{ owner, repo, issue_number }] },
+ *     "issues.listForRepo",
+ *   ],
+ * }
+ * ```
+ */
+export type MutationRules = Record<string, InvalidationRule | InvalidationRule[]>;
+
+/**
+ * Build a resolver collecting the invalidation rules of every pattern matching a method path.
+ * Resolves undefined when the path is not a mutation at all.
+ */
+export function createMutationResolver(mutations: MutationRules = {}) {
+  const rules = Object.entries(mutations).map(([pattern, value]) => ({
+    test: globToRegExp(pattern),
+    invalidates: ([] as InvalidationRule[]).concat(value),
+  }));
+  const resolved = new Map<string, InvalidationRule[] | undefined>();
+
+  return (path: string): InvalidationRule[] | undefined => {
+    if (!resolved.has(path)) {
+      const matched = rules.filter((rule) => rule.test.test(path));
+      resolved.set(path, matched.length ? matched.flatMap((rule) => rule.invalidates) : undefined);
+    }
+    return resolved.get(path);
+  };
+}
+
+function globToRegExp(pattern: string) {
+  const source = pattern
+    .split(/(\*\*|\*)/)
+    .map((part) =>
+      part === "**" ? ".*" : part === "*" ? "[^.]*" : part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"),
+    )
+    .join("");
+  return new RegExp(`^${source}$`);
+}
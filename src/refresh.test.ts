@@ -0,0 +1,61 @@
+import { describe, expect, test } from "bun:test";
+import { createRefresher } from "./refresh.js";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("createRefresher", () => {
+  test("should refresh hot keys close to expiry only", async () => {
+    const refresher = createRefresher({ threshold: 2, window: 0.5, interval: 5 });
+    const refreshed: string[] = [];
+    const track = (key: string) =>
+      refresher.track(key, Date.now() + 40, 40, async () => refreshed.push(key));
+    track("hot");
+    track("cold");
+    refresher.hit("hot");
+    refresher.hit("hot");
+    refresher.hit("cold");
+
+    await sleep(10);
+    expect(refreshed).toEqual([]); // more than half the TTL left
+    await sleep(25);
+    expect(refreshed).toEqual(["hot"]);
+    await refresher.stop();
+  });
+
+  test("should cap concurrent refreshes", async () => {
+    const refresher = createRefresher({ threshold: 0, window: 1, interval: 5, concurrency: 1 });
+    let active = 0;
+    let peak = 0;
+    for (const key of ["a", "b", "c"]) {
+      refresher.track(key, Date.now() + 1000, 1000, async () => {
+        peak = Math.max(peak, ++active);
+        await sleep(10);
+        active--;
+      });
+    }
+
+    await sleep(40);
+    await refresher.stop();
+    expect(peak).toBe(1);
+  });
+
+  test("should wait for running refreshes on stop and track nothing after", async () => {
+    const refresher = createRefresher({ threshold: 0, window: 1, interval: 5 });
+    let done = false;
+    refresher.track("a", Date.now() + 1000, 1000, async () => {
+      await sleep(20);
+      done = true;
+    });
+
+    await sleep(10);
+    await refresher.stop();
+    expect(done).toBe(true);
+
+    let called = false;
+    refresher.track("b", Date.now() + 1000, 1000, async () => {
+      called = true;
+    });
+    await sleep(15);
+    expect(called).toBe(false);
+  });
+});
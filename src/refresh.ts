@@ -0,0 +1,81 @@
+export type RefreshAheadOptions = {
+  /** Cache hits since the last fetch that make a key hot. Default: 2 */
+  threshold?: number;
+  /** Refresh hot keys once less than this fraction of their TTL is left. Default: 0.2 */
+  window?: number;
+  /** How often to look for keys to refresh, in milliseconds. Default: 1000 */
+  interval?: number;
+  /** Maximum refreshes running at once. Default: 2 */
+  concurrency?: number;
+};
+
+type Tracked = { hits: number; expiresAt: number; ttl: number; refresh: () => Promise<unknown> };
+
+/**
+ * createRefresher
+ * Background scheduler re-running the fetch of hot keys shortly before they expire,
+ * so no caller waits on the miss. Keys are tracked from their last fetch until they
+ * expire; the timer only runs while some key is tracked and never keeps the process alive.
+ */
+export function createRefresher({
+  threshold = 2,
+  window = 0.2,
+  interval = 1000,
+  concurrency = 2,
+}: RefreshAheadOptions = {}) {
+  const tracked = new Map<string, Tracked>();
+  const running = new Map<string, Promise<unknown>>();
+  let timer: ReturnType<typeof setInterval> | undefined;
+  let stopped = false;
+
+  const tick = () => {
+    const now = Date.now();
+    for (const [key, entry] of tracked) {
+      if (running.size >= concurrency) break;
+      if (running.has(key)) continue;
+      if (now >= entry.expiresAt) {
+        tracked.delete(key);
+        continue;
+      }
+      if (entry.hits < threshold || entry.expiresAt - now > entry.ttl * window) continue;
+      // a failed refresh is only retried once the key turns hot again
+      entry.hits = 0;
+      const refreshing = entry
+        .refresh()
+        .catch(() => {
+          // the entry stays until it expires, the next miss fetches it as usual
+        })
+        .finally(() => running.delete(key));
+      running.set(key, refreshing);
+    }
+    if (!tracked.size && timer) {
+      clearInterval(timer);
+      timer = undefined;
+    }
+  };
+
+  return {
+    /** Track a freshly fetched key, `refresh` re-runs its fetch with the recorded arguments */
+    track(key: string, expiresAt: number, ttl: number, refresh: () => Promise<unknown>) {
+      if (stopped || !(ttl > 0)) return;
+      tracked.set(key, { hits: 0, expiresAt, ttl, refresh });
+      if (!timer) {
+        timer = setInterval(tick, interval);
+        timer.unref?.();
+      }
+    },
+    /** Count a cache hit on a key */
+    hit(key: string) {
+      const entry = tracked.get(key);
+      if (entry) entry.hits++;
+    },
+    /** Stop scheduling refreshes and wait for the running ones to settle */
+    async stop() {
+      stopped = true;
+      clearInterval(timer);
+      timer = undefined;
+      tracked.clear();
+      await Promise.all(running.values());
+    },
+  };
+}